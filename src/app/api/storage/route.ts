@@ -0,0 +1,166 @@
+// Server side of the local storage backend: keeps every document in one JSON
+// file (STORAGE_FILE, default data/storage.json). Only enabled when
+// NEXT_PUBLIC_STORAGE_BACKEND=local, and only answers requests carrying the
+// server-only STORAGE_ACCESS_KEY.
+import { createHash, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { StorageRequest } from '@/lib/fileStorage';
+
+interface StorageFile {
+  documents: Record<string, unknown>;
+}
+
+const STORAGE_FILE = process.env.STORAGE_FILE || path.join(process.cwd(), 'data', 'storage.json');
+const ACCESS_KEY = process.env.STORAGE_ACCESS_KEY;
+
+// Requests are handled one at a time so concurrent writes can't interleave
+let queue: Promise<unknown> = Promise.resolve();
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+async function readStorage(): Promise<StorageFile> {
+  try {
+    return JSON.parse(await fs.readFile(STORAGE_FILE, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { documents: {} };
+    throw error;
+  }
+}
+
+// Write to a temporary file first, so a crash never leaves a half-written file
+async function writeStorage(storage: StorageFile): Promise<void> {
+  await fs.mkdir(path.dirname(STORAGE_FILE), { recursive: true });
+  const tempFile = `${STORAGE_FILE}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(storage));
+  await fs.rename(tempFile, STORAGE_FILE);
+}
+
+// Compare hashes, so the check takes the same time whatever the key
+function isAuthorized(req: Request, accessKey: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  const key = req.headers.get('authorization')?.replace(/^Bearer /, '') ?? '';
+  return timingSafeEqual(digest(key), digest(accessKey));
+}
+
+function isValidPath(value: unknown): value is string {
+  return typeof value === 'string' && value.split('/').every(segment => segment !== '' && segment !== '..');
+}
+
+// Every path a request touches
+function requestPaths(request: StorageRequest): unknown[] {
+  if (request?.op === 'commit') {
+    if (!Array.isArray(request.reads) || !Array.isArray(request.writes)) return [undefined];
+    return [...request.reads, ...request.writes].map(document => document?.path);
+  }
+  return [request?.path];
+}
+
+// Documents directly inside a collection, with their IDs
+function collectionEntries(storage: StorageFile, collectionPath: string): [string, unknown][] {
+  const prefix = `${collectionPath}/`;
+  return Object.entries(storage.documents).filter(([key]) =>
+    key.startsWith(prefix) && !key.slice(prefix.length).includes('/')
+  );
+}
+
+function compareField(field: string) {
+  return (a: unknown, b: unknown) => {
+    const x = (a as Record<string, unknown>)[field];
+    const y = (b as Record<string, unknown>)[field];
+    if (x === y) return 0;
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    return (x as string | number) < (y as string | number) ? -1 : 1;
+  };
+}
+
+async function handle(request: StorageRequest): Promise<unknown> {
+  const storage = await readStorage();
+  const { documents } = storage;
+
+  switch (request.op) {
+    case 'get':
+      return { data: documents[request.path] ?? null };
+    case 'set':
+      documents[request.path] = request.data;
+      await writeStorage(storage);
+      return { ok: true };
+    case 'delete':
+      delete documents[request.path];
+      await writeStorage(storage);
+      return { ok: true };
+    case 'add': {
+      const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+      documents[`${request.path}/${id}`] = request.data;
+      await writeStorage(storage);
+      return { ok: true };
+    }
+    case 'list': {
+      const { orderBy, direction = 'asc', limit } = request.options ?? {};
+      let items = collectionEntries(storage, request.path).map(([, data]) => data);
+      if (orderBy) {
+        items.sort(compareField(orderBy));
+        if (direction === 'desc') items.reverse();
+      }
+      if (limit !== undefined) items = items.slice(0, limit);
+      return { items };
+    }
+    case 'count':
+      return { count: collectionEntries(storage, request.path).length };
+    case 'commit': {
+      const isUnchanged = request.reads.every(({ path, data }) =>
+        JSON.stringify(documents[path] ?? null) === JSON.stringify(data)
+      );
+      if (!isUnchanged) {
+        return { ok: false };
+      }
+      for (const { path, data } of request.writes) {
+        if (data === null) {
+          delete documents[path];
+        } else {
+          documents[path] = data;
+        }
+      }
+      await writeStorage(storage);
+      return { ok: true };
+    }
+  }
+}
+
+export async function POST(req: Request) {
+  if (process.env.NEXT_PUBLIC_STORAGE_BACKEND !== 'local') {
+    return new Response('Local storage backend is not enabled', { status: 404 });
+  }
+  if (!ACCESS_KEY) {
+    return new Response('STORAGE_ACCESS_KEY is not set on the server', { status: 503 });
+  }
+  if (!isAuthorized(req, ACCESS_KEY)) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  let request: StorageRequest;
+  try {
+    request = await req.json();
+  } catch {
+    return new Response('Invalid JSON', { status: 400 });
+  }
+  if (!requestPaths(request).every(isValidPath)) {
+    return new Response('Invalid path', { status: 400 });
+  }
+
+  try {
+    const result = await serialize(() => handle(request));
+    if (result === undefined) {
+      return new Response(`Unknown operation: ${(request as { op?: string }).op}`, { status: 400 });
+    }
+    return Response.json(result);
+  } catch (error) {
+    console.error('Error handling storage request:', error);
+    return new Response('Storage error', { status: 500 });
+  }
+}
@@ -1,20 +1,79 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import {
   ExperimentData,
+  GenerationOptions,
+  Strata,
+  DEFAULT_STUDY_DESIGN,
+  DEFAULT_STUDY_ID,
+  computeSummary,
+  getModelTypeDefinition,
+  isWithdrawn,
   generateExperimentData,
-  loadFromFirestore,
-  saveToFirestore,
+  loadFromDatabase,
   loadFromLocalStorage,
+  saveToDatabase,
+  clearDatabase,
   addParticipant,
   removeParticipant,
   regenerateParticipant,
+  withdrawParticipant,
+  reinstateParticipant,
+  setSessionStatus,
+  recordMeasurementResult,
+  setSessionStep,
+  scheduleSession,
+  SessionStatus,
+  SessionSchedule,
+  MeasurementKey,
+  MeasurementInput,
 } from '@/lib/randomization';
 import ExperimentForm from '@/components/ExperimentForm';
 import ParticipantCard from '@/components/ParticipantCard';
 import ExportButtons from '@/components/ExportButtons';
 import SummaryStats from '@/components/SummaryStats';
+import StrataForm from '@/components/StrataForm';
+import IntegrityReportPanel from '@/components/IntegrityReportPanel';
+import SessionRunner from '@/components/SessionRunner';
+import StudySwitcher from '@/components/StudySwitcher';
+import HistoryPanel from '@/components/HistoryPanel';
+import SyncConflictPanel from '@/components/SyncConflictPanel';
+import AuditLogPanel from '@/components/AuditLogPanel';
+import DataRecoveryPanel from '@/components/DataRecoveryPanel';
+import ImportPanel from '@/components/ImportPanel';
+import { Snapshot, loadSnapshots, saveSnapshot } from '@/lib/history';
+import {
+  SyncConflict,
+  ConflictSide,
+  isSameData,
+  mergeExperimentData,
+  saveMerged,
+  subscribeToStudy,
+} from '@/lib/sync';
+import { QueuedAuditEntry, clearOfflineState, loadOfflineState, queueAuditEntry, queueChange, storeSyncState } from '@/lib/offline';
+import { getValidationProblems } from '@/lib/validation';
+import {
+  AuditAction,
+  AuditEntry,
+  ChangeJustification,
+  appendAuditEntry,
+  createAuditEntry,
+  discardQueuedAuditEntries,
+  loadAuditLog,
+  pushQueuedAuditEntries,
+} from '@/lib/audit';
+import {
+  StudyInfo,
+  loadStudies,
+  createStudy,
+  renameStudy,
+  setStudyArchived,
+  getCurrentStudyId,
+  setCurrentStudyId,
+} from '@/lib/studies';
+import { IntegrityReport, verifyExperimentData } from '@/lib/verification';
+import { setStorageAccessKey } from '@/lib/fileStorage';
 import ThemeToggle from '@/components/ThemeToggle';
 
 export default function Home() {
@@ -23,11 +82,42 @@ export default function Home() {
   const [password, setPassword] = useState('');
   const [authError, setAuthError] = useState('');
 
+  // Study state
+  const [studies, setStudies] = useState<StudyInfo[]>([]);
+  const [currentStudyId, setCurrentStudy] = useState(DEFAULT_STUDY_ID);
+
   // Data state
   const [experimentData, setExperimentData] = useState<ExperimentData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isDataLoading, setIsDataLoading] = useState(false);
-  const [isRefreshing, setIsRefreshing] = useState(false);
+  // Study that can't be opened, e.g. data from a newer app version or data
+  // that fails validation (with its problems and this device's backup)
+  const [loadError, setLoadError] = useState<{
+    message: string;
+    problems: string[];
+    backup: ExperimentData | null;
+    recoveryError?: string;
+  } | null>(null);
+  const [showStrataForm, setShowStrataForm] = useState(false);
+  // Report is kept with the data it was computed for, so it disappears once the data changes
+  const [integrity, setIntegrity] = useState<{ data: ExperimentData; report: IntegrityReport } | null>(null);
+  const [runningSession, setRunningSession] = useState<{ recordId: number; sessionNumber: number } | null>(null);
+  const [history, setHistory] = useState<{ snapshots: Snapshot[] | null; error: string | null } | null>(null);
+  const [auditLog, setAuditLog] = useState<{ entries: AuditEntry[] | null; error: string | null } | null>(null);
+  const [showImport, setShowImport] = useState(false);
+
+  // Live sync. The refs are read by the database listener: the version last
+  // known to be on the server, the latest local data and the open study.
+  const syncedRef = useRef<ExperimentData | null>(null);
+  const localRef = useRef<ExperimentData | null>(null);
+  const studyIdRef = useRef(DEFAULT_STUDY_ID);
+  const isSavingRef = useRef(false);
+  const loadedStudyRef = useRef<string | null>(null);
+  const pendingRemoteRef = useRef<ExperimentData | null>(null); // Arrived before the study loaded
+  const pendingAuditRef = useRef<QueuedAuditEntry[]>([]); // Audit entries of the edit about to be queued
+  const [syncState, setSyncState] = useState<'live' | 'saving' | 'offline'>('live');
+  const [pendingCount, setPendingCount] = useState(0);
+  const [conflict, setConflict] = useState<{ remote: ExperimentData; conflicts: SyncConflict[] } | null>(null);
 
   // Match FLL pattern: fallback password in case env var isn't set
   const SITE_PASSWORD = process.env.NEXT_PUBLIC_SITE_PASSWORD || 'hamsandwich1943';
@@ -36,52 +126,351 @@ export default function Home() {
   const handleLogin = (e: React.FormEvent) => {
     e.preventDefault();
     if (password === SITE_PASSWORD) {
+      setStorageAccessKey(password);
       setIsAuthenticated(true);
       setAuthError('');
-      // Load data from Firestore AFTER authentication
-      loadData();
+      // Load data from the database AFTER authentication
+      loadStudyList();
     } else {
       setAuthError('Incorrect password');
     }
   };
 
-  // Load data from Firestore (only called after authentication)
-  const loadData = async () => {
+  // Load the study list, then the study that was open last
+  const loadStudyList = async () => {
+    setIsDataLoading(true);
+    const studyList = await loadStudies();
+    setStudies(studyList);
+    const lastStudyId = getCurrentStudyId();
+    const studyId = studyList.some(s => s.id === lastStudyId) ? lastStudyId : DEFAULT_STUDY_ID;
+    setCurrentStudy(studyId);
+    studyIdRef.current = studyId;
+    await loadData(studyId);
+  };
+
+  // Show why a study can't be opened, with a valid backup to recover from
+  const showLoadError = useCallback((error: unknown, studyId: string) => {
+    const problems = getValidationProblems(error);
+    setLoadError({
+      message: error instanceof Error ? error.message : 'The study data could not be read',
+      problems,
+      backup: problems.length > 0 ? loadFromLocalStorage(studyId) : null,
+    });
+  }, []);
+
+  // Load data (only called after authentication). The copy on this device,
+  // with its pending changes, is shown first; the database listener then
+  // merges in the server version.
+  const loadData = async (studyId: string) => {
     setIsDataLoading(true);
+    const showData = (data: ExperimentData | null, synced: ExperimentData | null) => {
+      if (data && studyIdRef.current === studyId) {
+        syncedRef.current = synced;
+        localRef.current = data;
+        setExperimentData(data);
+      }
+    };
     try {
-      const firestoreData = await loadFromFirestore();
-      if (firestoreData) {
-        setExperimentData(firestoreData);
+      const offline = await loadOfflineState(studyId);
+      if (offline.local) {
+        showData(offline.local, offline.synced);
+        if (studyIdRef.current === studyId) setPendingCount(offline.pendingCount);
       } else {
-        const localData = loadFromLocalStorage();
-        if (localData) {
-          setExperimentData(localData);
-        }
+        // Nothing on this device yet; loadFromDatabase falls back to the
+        // localStorage backup, so the result isn't known to be synced
+        showData(await loadFromDatabase(studyId) ?? loadFromLocalStorage(studyId), null);
       }
     } catch (error) {
+      // Unreachable storage already falls back to localStorage, so this is
+      // data the app can't use
       console.error('Error loading data:', error);
-      const localData = loadFromLocalStorage();
-      if (localData) {
-        setExperimentData(localData);
+      if (studyIdRef.current === studyId) {
+        showLoadError(error, studyId);
       }
     } finally {
       setIsDataLoading(false);
+      // Apply the newest server version that arrived while loading
+      if (studyIdRef.current === studyId) {
+        loadedStudyRef.current = studyId;
+        const remote = pendingRemoteRef.current;
+        pendingRemoteRef.current = null;
+        if (remote) applyRemote(remote);
+      }
     }
   };
 
-  // Save to Firestore whenever data changes (only if authenticated)
+  // Store the synced version and any local changes on this device
+  const persistSyncState = useCallback((studyId: string, synced: ExperimentData, local: ExperimentData | null) => {
+    storeSyncState(studyId, synced, local)
+      .then(count => {
+        if (studyIdRef.current === studyId) setPendingCount(count);
+      })
+      .catch(error => console.error('Error storing offline copy:', error));
+  }, []);
+
+  // Apply a version from the server, merging in local edits that are not
+  // saved yet. Returns false when they conflict and the user has to choose.
+  const applyRemote = useCallback((remote: ExperimentData): boolean => {
+    const local = localRef.current;
+    if (!local || isSameData(local, syncedRef.current) || isSameData(local, remote)) {
+      syncedRef.current = remote;
+      if (!isSameData(local, remote)) {
+        localRef.current = remote;
+        setExperimentData(remote);
+      }
+      setConflict(null);
+      persistSyncState(studyIdRef.current, remote, localRef.current);
+      return true;
+    }
+    const result = mergeExperimentData(syncedRef.current, local, remote);
+    if (result.conflicts.length > 0) {
+      setConflict({ remote, conflicts: result.conflicts });
+      return false;
+    }
+    syncedRef.current = remote;
+    localRef.current = result.data;
+    setExperimentData(result.data);
+    setConflict(null);
+    persistSyncState(studyIdRef.current, remote, result.data);
+    return true;
+  }, [persistSyncState]);
+
+  // Save local edits one at a time until the server has the latest data,
+  // keeping a snapshot of every allocation change, then write the audit entries
+  // of the saved edits
+  const syncChanges = useCallback(async () => {
+    if (isSavingRef.current) return;
+    isSavingRef.current = true;
+    try {
+      for (;;) {
+        const studyId = studyIdRef.current;
+        const local = localRef.current;
+        if (!local || isSameData(local, syncedRef.current)) {
+          await pushQueuedAuditEntries(studyId);
+          break;
+        }
+        setSyncState('saving');
+        const result = await saveMerged(studyId, syncedRef.current, local);
+        if (studyIdRef.current !== studyId) continue;
+        if (result.conflicts.length > 0 && result.remote) {
+          setConflict({ remote: result.remote, conflicts: result.conflicts });
+          break;
+        }
+        saveSnapshot(studyId, result.data, result.remote).catch(console.error);
+        // What was sent is now the base for edits made during the save
+        syncedRef.current = local;
+        if (!applyRemote(result.data)) break;
+      }
+      setSyncState('live');
+    } catch (error) {
+      console.error('Error saving data:', error);
+      setSyncState('offline');
+      // The server copy fails validation, so there is nothing to merge with
+      if (getValidationProblems(error).length > 0) {
+        showLoadError(error, studyIdRef.current);
+      }
+    } finally {
+      isSavingRef.current = false;
+    }
+  }, [applyRemote, showLoadError]);
+
+  // Queue local edits on this device with their audit entries, then save
+  // them (only if authenticated and no conflict or damaged server copy is
+  // open). Data from the server or from this device's copy is already in
+  // localRef and isn't queued again. Audit entries queued after a save has
+  // started are written by the next one.
   useEffect(() => {
-    if (isAuthenticated && experimentData) {
-      saveToFirestore(experimentData).catch(console.error);
+    const isLocalEdit = experimentData !== localRef.current;
+    localRef.current = experimentData;
+    if (!isAuthenticated || !experimentData) return;
+    if (isLocalEdit) {
+      const studyId = studyIdRef.current;
+      const auditEntries = pendingAuditRef.current;
+      pendingAuditRef.current = [];
+      if (!isSameData(experimentData, syncedRef.current)) {
+        queueChange(studyId, syncedRef.current, experimentData, auditEntries)
+          .then(count => {
+            if (studyIdRef.current === studyId) setPendingCount(count);
+          })
+          .catch(error => console.error('Error queueing change:', error));
+      } else {
+        // Edits that undid each other: both are still audited
+        Promise.all(auditEntries.map(({ id, entry }) => queueAuditEntry(studyId, id, entry)))
+          .catch(error => console.error('Error queueing audit entry:', error));
+      }
     }
-  }, [experimentData, isAuthenticated]);
+    if (!conflict && !loadError) {
+      syncChanges();
+    }
+  }, [experimentData, isAuthenticated, conflict, loadError, syncChanges]);
+
+  // Push pending changes as soon as the connection returns, and retry every
+  // 30s while offline
+  useEffect(() => {
+    if (!isAuthenticated || loadError) return;
+    const handleOnline = () => syncChanges();
+    const handleOffline = () => setSyncState('offline');
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const retry = syncState === 'offline' ? setInterval(syncChanges, 30000) : undefined;
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(retry);
+    };
+  }, [isAuthenticated, syncState, loadError, syncChanges]);
 
-  const handleGenerate = (participants: number) => {
+  // Follow changes made on other devices. Snapshots arriving during a save
+  // are skipped; the save itself merges with the server version.
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return subscribeToStudy(
+      currentStudyId,
+      (remote) => {
+        if (!remote || studyIdRef.current !== currentStudyId) return;
+        if (loadedStudyRef.current !== currentStudyId) {
+          pendingRemoteRef.current = remote;
+        } else if (!isSavingRef.current) {
+          applyRemote(remote);
+          setSyncState('live');
+        }
+      },
+      (error) => {
+        console.error('Error listening for changes:', error);
+        setSyncState('offline');
+        if (studyIdRef.current === currentStudyId && getValidationProblems(error).length > 0) {
+          showLoadError(error, currentStudyId);
+        }
+      }
+    );
+  }, [isAuthenticated, currentStudyId, applyRemote, showLoadError]);
+
+  // Changes given up for the other device's version are dropped from the
+  // audit trail before anything is saved
+  const handleResolveConflict = async (prefer: ConflictSide) => {
+    if (conflict && experimentData) {
+      if (prefer === 'remote') {
+        const recordIds = conflict.conflicts.map(c => c.recordId);
+        await discardQueuedAuditEntries(
+          currentStudyId,
+          recordIds.every(id => id !== null) ? recordIds : null
+        ).catch(error => console.error('Error discarding audit entries:', error));
+      }
+      const { data } = mergeExperimentData(syncedRef.current, experimentData, conflict.remote, prefer);
+      syncedRef.current = conflict.remote;
+      localRef.current = data;
+      setConflict(null);
+      setExperimentData(data);
+      persistSyncState(currentStudyId, conflict.remote, data);
+    }
+  };
+
+  // Replace a study whose data fails validation with a valid version, or
+  // with nothing to start over. Written directly: the damaged copy can't be
+  // merged with.
+  const handleRecover = async (data: ExperimentData | null, justification: ChangeJustification) => {
+    const studyId = currentStudyId;
+    try {
+      if (data) {
+        await saveToDatabase(data, studyId);
+        await storeSyncState(studyId, data, data);
+        saveSnapshot(studyId, data).catch(console.error);
+      } else {
+        await clearDatabase(studyId);
+        await clearOfflineState(studyId);
+      }
+    } catch (error) {
+      console.error('Error recovering study:', error);
+      setLoadError(current => current && { ...current, recoveryError: 'Could not save the recovered data. Check the connection and try again.' });
+      return;
+    }
+    if (studyIdRef.current !== studyId) return;
+    syncedRef.current = data;
+    localRef.current = data;
+    setLoadError(null);
+    setHistory(null);
+    setPendingCount(0);
+    setSyncState('live');
+    setExperimentData(data);
+    // Already saved, so the entry is written right away
+    try {
+      appendAuditEntry(createAuditEntry(studyId, data ? 'restore' : 'reset', justification, { newSeed: data?.masterSeed }))
+        .catch(error => console.error('Error writing audit entry:', error));
+    } catch (error) {
+      console.error('Error writing audit entry:', error);
+    }
+  };
+
+  // Clear the open study in the same update as the ID changes, so its data
+  // is never saved under the new study
+  const handleSwitchStudy = (studyId: string) => {
+    setExperimentData(null);
+    setRunningSession(null);
+    setShowStrataForm(false);
+    setHistory(null);
+    setAuditLog(null);
+    setShowImport(false);
+    setConflict(null);
+    setLoadError(null);
+    studyIdRef.current = studyId;
+    syncedRef.current = null;
+    localRef.current = null;
+    loadedStudyRef.current = null;
+    pendingRemoteRef.current = null;
+    pendingAuditRef.current = [];
+    setPendingCount(0);
+    setCurrentStudy(studyId);
+    setCurrentStudyId(studyId);
+    loadData(studyId);
+  };
+
+  const handleCreateStudy = async (name: string) => {
+    try {
+      const { study, studies: updated } = await createStudy(name, studies);
+      setStudies(updated);
+      handleSwitchStudy(study.id);
+    } catch (error) {
+      console.error('Error creating study:', error);
+    }
+  };
+
+  const handleRenameStudy = async (studyId: string, name: string) => {
+    try {
+      setStudies(await renameStudy(studyId, name, studies));
+    } catch (error) {
+      console.error('Error renaming study:', error);
+    }
+  };
+
+  const handleArchiveStudy = async (studyId: string, archived: boolean) => {
+    try {
+      setStudies(await setStudyArchived(studyId, archived, studies));
+    } catch (error) {
+      console.error('Error archiving study:', error);
+    }
+  };
+
+  // Record an allocation change in the study's audit trail. The entry is
+  // queued with the change and written once the database has it.
+  const logChange = (
+    action: AuditAction,
+    justification: ChangeJustification,
+    details?: { recordId?: number; oldSeed?: number; newSeed?: number }
+  ) => {
+    try {
+      pendingAuditRef.current.push(createAuditEntry(currentStudyId, action, justification, details));
+    } catch (error) {
+      console.error('Error writing audit entry:', error);
+    }
+  };
+
+  const handleGenerate = (participants: number, options: GenerationOptions, justification: ChangeJustification) => {
     setIsLoading(true);
     setTimeout(() => {
       try {
-        const data = generateExperimentData(participants);
+        const data = generateExperimentData(participants, options);
         setExperimentData(data);
+        logChange('generate', justification, { oldSeed: experimentData?.masterSeed, newSeed: data.masterSeed });
       } catch (error) {
         console.error('Error generating experiment data:', error);
       } finally {
@@ -90,39 +479,173 @@ export default function Home() {
     }, 100);
   };
 
-  // Refresh data from Firestore
-  const handleRefresh = async () => {
-    setIsRefreshing(true);
+  const handleVerifyIntegrity = () => {
+    if (experimentData) {
+      setIntegrity({ data: experimentData, report: verifyExperimentData(experimentData) });
+    }
+  };
+
+  const handleShowHistory = async () => {
+    setHistory({ snapshots: null, error: null });
     try {
-      const firestoreData = await loadFromFirestore();
-      if (firestoreData) {
-        setExperimentData(firestoreData);
-      }
+      const snapshots = await loadSnapshots(currentStudyId);
+      setHistory({ snapshots, error: null });
     } catch (error) {
-      console.error('Error refreshing data:', error);
-    } finally {
-      setIsRefreshing(false);
+      console.error('Error loading history:', error);
+      setHistory({ snapshots: null, error: 'Could not load the version history. Check the connection and try again.' });
+    }
+  };
+
+  const handleShowAuditLog = async () => {
+    setAuditLog({ entries: null, error: null });
+    try {
+      const entries = await loadAuditLog(currentStudyId);
+      setAuditLog({ entries, error: null });
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      setAuditLog({ entries: null, error: 'Could not load the audit log. Check the connection and try again.' });
+    }
+  };
+
+  const handleRestoreSnapshot = (data: ExperimentData, justification: ChangeJustification) => {
+    setExperimentData(data);
+    setHistory(null);
+    logChange('restore', justification, { oldSeed: experimentData?.masterSeed, newSeed: data.masterSeed });
+  };
+
+  // Participants enrolled from REDCap are logged one by one, like any enrollment
+  const handleImport = (data: ExperimentData, justification: ChangeJustification, enrolled: number[]) => {
+    setExperimentData(data);
+    setShowImport(false);
+    if (enrolled.length === 0) {
+      logChange('import', justification, { oldSeed: experimentData?.masterSeed, newSeed: data.masterSeed });
+    }
+    for (const recordId of enrolled) {
+      const added = data.participants.find(p => p.recordId === recordId);
+      logChange('add', justification, { recordId, newSeed: added?.randomSeed });
     }
   };
 
+  // Enrollment asks for a reason (and the strata, for stratified studies) first
   const handleAddParticipant = () => {
+    setShowStrataForm(true);
+  };
+
+  const handleEnrollParticipant = (strata: Strata, justification: ChangeJustification) => {
+    if (experimentData) {
+      try {
+        const updatedData = addParticipant(
+          experimentData,
+          experimentData.allocationMethod === 'stratified' ? strata : undefined
+        );
+        setExperimentData(updatedData);
+        setShowStrataForm(false);
+        const added = updatedData.participants[updatedData.participants.length - 1];
+        logChange('add', justification, { recordId: added.recordId, newSeed: added.randomSeed });
+      } catch (error) {
+        console.error('Error adding participant:', error);
+      }
+    }
+  };
+
+  const handleRemoveParticipant = (recordId: number, justification: ChangeJustification) => {
     if (experimentData) {
-      const updatedData = addParticipant(experimentData);
+      try {
+        const removed = experimentData.participants.find(p => p.recordId === recordId);
+        const updatedData = removeParticipant(experimentData, recordId);
+        setExperimentData(updatedData);
+        logChange('remove', justification, { recordId, oldSeed: removed?.randomSeed });
+      } catch (error) {
+        console.error('Error removing participant:', error);
+      }
+    }
+  };
+
+  const handleWithdrawParticipant = (recordId: number, justification: ChangeJustification) => {
+    if (experimentData) {
+      const withdrawn = experimentData.participants.find(p => p.recordId === recordId);
+      const updatedData = withdrawParticipant(experimentData, recordId, justification.reason.trim());
       setExperimentData(updatedData);
+      logChange('withdraw', justification, { recordId, oldSeed: withdrawn?.randomSeed });
     }
   };
 
-  const handleRemoveParticipant = (recordId: number) => {
+  const handleSessionStatusChange = (recordId: number, sessionNumber: number, status: SessionStatus) => {
     if (experimentData) {
-      const updatedData = removeParticipant(experimentData, recordId);
+      const updatedData = setSessionStatus(experimentData, recordId, sessionNumber, status);
       setExperimentData(updatedData);
     }
   };
 
-  const handleRegenerateParticipant = (recordId: number) => {
+  const handleRecordResult = (recordId: number, key: MeasurementKey, result: MeasurementInput) => {
+    if (experimentData) {
+      try {
+        const updatedData = recordMeasurementResult(experimentData, recordId, key, result);
+        setExperimentData(updatedData);
+      } catch (error) {
+        console.error('Error recording measurement result:', error);
+      }
+    }
+  };
+
+  const handleScheduleSession = (recordId: number, sessionNumber: number, schedule: SessionSchedule) => {
     if (experimentData) {
-      const updatedData = regenerateParticipant(experimentData, recordId);
+      try {
+        const updatedData = scheduleSession(experimentData, recordId, sessionNumber, schedule);
+        setExperimentData(updatedData);
+      } catch (error) {
+        console.error('Error scheduling session:', error);
+      }
+    }
+  };
+
+  const handleRunnerStepChange = (step: number) => {
+    if (experimentData && runningSession) {
+      const updatedData = setSessionStep(experimentData, runningSession.recordId, runningSession.sessionNumber, step);
+      setExperimentData(updatedData);
+    }
+  };
+
+  const handleRunnerRecordResult = (key: MeasurementKey, result: MeasurementInput, nextStep: number) => {
+    if (experimentData && runningSession) {
+      try {
+        const recorded = recordMeasurementResult(experimentData, runningSession.recordId, key, result);
+        const updatedData = setSessionStep(recorded, runningSession.recordId, runningSession.sessionNumber, nextStep);
+        setExperimentData(updatedData);
+      } catch (error) {
+        console.error('Error recording measurement result:', error);
+      }
+    }
+  };
+
+  const handleRunnerComplete = () => {
+    if (experimentData && runningSession) {
+      const updatedData = setSessionStatus(experimentData, runningSession.recordId, runningSession.sessionNumber, 'completed');
       setExperimentData(updatedData);
+      setRunningSession(null);
+    }
+  };
+
+  const handleReinstateParticipant = (recordId: number, justification: ChangeJustification) => {
+    if (experimentData) {
+      const reinstated = experimentData.participants.find(p => p.recordId === recordId);
+      const updatedData = reinstateParticipant(experimentData, recordId);
+      setExperimentData(updatedData);
+      logChange('reinstate', justification, { recordId, oldSeed: reinstated?.randomSeed });
+    }
+  };
+
+  const handleRegenerateParticipant = (recordId: number, justification: ChangeJustification) => {
+    if (experimentData) {
+      try {
+        const before = experimentData.participants.find(p => p.recordId === recordId);
+        const updatedData = regenerateParticipant(experimentData, recordId);
+        const after = updatedData.participants.find(p => p.recordId === recordId);
+        setExperimentData(updatedData);
+        logChange('regenerate', justification, { recordId, oldSeed: before?.randomSeed, newSeed: after?.randomSeed });
+      } catch (error) {
+        console.error('Error regenerating participant:', error);
+      }
     }
   };
 
@@ -188,6 +711,12 @@ export default function Home() {
     );
   }
 
+  // Look the running session up in the current data so the runner always shows saved state
+  const runningParticipant = runningSession
+    ? experimentData?.participants.find(p => p.recordId === runningSession.recordId)
+    : undefined;
+  const runningSessionEntry = runningParticipant?.sessions.find(s => s.sessionNumber === runningSession?.sessionNumber);
+
   // Show main content after authentication
   return (
     <div className="min-h-screen bg-background">
@@ -215,6 +744,25 @@ export default function Home() {
               </div>
             </div>
             <div className="flex items-center gap-3">
+              <StudySwitcher
+                studies={studies}
+                currentStudyId={currentStudyId}
+                onSwitch={handleSwitchStudy}
+                onCreate={handleCreateStudy}
+                onRename={handleRenameStudy}
+                onArchive={handleArchiveStudy}
+              />
+              {!loadError && (
+                <button
+                  onClick={() => setShowImport(!showImport)}
+                  className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg font-medium text-sm transition-colors cursor-pointer"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                  </svg>
+                  Import
+                </button>
+              )}
               {experimentData && <ExportButtons data={experimentData} />}
               <ThemeToggle />
             </div>
@@ -223,17 +771,58 @@ export default function Home() {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Study that can't be opened (nothing is saved over it) */}
+        {loadError && (
+          <section className="mb-8 p-4 border border-destructive/20 rounded-lg bg-destructive/10">
+            <h3 className="text-sm font-semibold text-destructive">This study could not be opened</h3>
+            {loadError.problems.length > 0 ? (
+              <DataRecoveryPanel
+                message={loadError.message}
+                problems={loadError.problems}
+                backup={loadError.backup}
+                error={loadError.recoveryError}
+                onUseBackup={handleRecover}
+                onShowHistory={handleShowHistory}
+                onStartOver={(justification) => handleRecover(null, justification)}
+              />
+            ) : (
+              <p className="text-sm text-card-foreground mt-1">{loadError.message}</p>
+            )}
+            {loadError.problems.length > 0 && history && (
+              <div className="mt-4">
+                <HistoryPanel
+                  snapshots={history.snapshots}
+                  error={history.error}
+                  current={null}
+                  onRestore={handleRecover}
+                  onClose={() => setHistory(null)}
+                />
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Import of a JSON or CSV export */}
+        {showImport && !loadError && (
+          <ImportPanel current={experimentData} onImport={handleImport} onClose={() => setShowImport(false)} />
+        )}
+
         {/* Form Section */}
-        <section className="mb-8">
-          <ExperimentForm
-            onGenerate={handleGenerate}
-            isLoading={isLoading}
-            hasExistingData={experimentData !== null}
-          />
-        </section>
+        {!loadError && (
+          <section className="mb-8">
+            {/* Keyed by study and generation, so the form starts from the design of the data shown */}
+            <ExperimentForm
+              key={`${currentStudyId}:${experimentData?.generatedAt ?? 'new'}`}
+              onGenerate={handleGenerate}
+              isLoading={isLoading}
+              hasExistingData={experimentData !== null}
+              initialDesign={experimentData?.design ?? DEFAULT_STUDY_DESIGN}
+            />
+          </section>
+        )}
 
         {/* Results Section */}
-        {experimentData && (
+        {experimentData && !loadError && (
           <>
             {/* Summary Stats */}
             <section className="mb-8">
@@ -245,20 +834,54 @@ export default function Home() {
               <div className="bg-card rounded-lg shadow-sm border border-border p-6">
                 <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-6">
                   <h2 className="text-lg font-semibold text-card-foreground">
-                    Participant Randomizations ({experimentData.participants.length})
+                    Participant Randomizations ({experimentData.participants.filter(p => !isWithdrawn(p)).length} active
+                    {experimentData.participants.some(isWithdrawn) && `, ${experimentData.participants.filter(isWithdrawn).length} withdrawn`})
                   </h2>
 
                   <div className="flex items-center gap-3">
-                    {/* Update Participants Button */}
+                    {/* Sync status: changes from other devices appear automatically */}
+                    <span
+                      className="flex items-center gap-2 text-xs text-muted-foreground"
+                      title={syncState === 'offline' ? 'Changes are kept on this device and saved when the connection returns' : undefined}
+                    >
+                      <span className={`w-2 h-2 rounded-full ${
+                        syncState === 'live' ? 'bg-chart-2' : syncState === 'saving' ? 'bg-muted-foreground animate-pulse' : 'bg-destructive'
+                      }`} />
+                      {syncState === 'live' ? 'Online' : syncState === 'saving' ? 'Saving...' : 'Offline'}
+                      {pendingCount > 0 && ` · ${pendingCount} pending`}
+                    </span>
+
+                    {/* Verify Integrity Button */}
                     <button
-                      onClick={handleRefresh}
-                      disabled={isRefreshing}
-                      className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-colors shadow-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground cursor-pointer disabled:opacity-50"
+                      onClick={handleVerifyIntegrity}
+                      className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-colors shadow-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground cursor-pointer"
                     >
-                      <svg className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
                       </svg>
-                      {isRefreshing ? 'Updating...' : 'Update Participants'}
+                      Verify Integrity
+                    </button>
+
+                    {/* History Button */}
+                    <button
+                      onClick={handleShowHistory}
+                      className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-colors shadow-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground cursor-pointer"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      History
+                    </button>
+
+                    {/* Audit Log Button */}
+                    <button
+                      onClick={handleShowAuditLog}
+                      className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-colors shadow-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground cursor-pointer"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                      </svg>
+                      Audit Log
                     </button>
 
                     {/* Add Participant Button */}
@@ -279,19 +902,65 @@ export default function Home() {
                   </div>
                 </div>
 
+                {/* Changes from another device that collide with local edits */}
+                {conflict && (
+                  <SyncConflictPanel conflicts={conflict.conflicts} onResolve={handleResolveConflict} />
+                )}
+
+                {/* Version history */}
+                {history && (
+                  <HistoryPanel
+                    snapshots={history.snapshots}
+                    error={history.error}
+                    current={experimentData}
+                    onRestore={handleRestoreSnapshot}
+                    onClose={() => setHistory(null)}
+                  />
+                )}
+
+                {/* Audit trail of allocation changes */}
+                {auditLog && (
+                  <AuditLogPanel
+                    entries={auditLog.entries}
+                    error={auditLog.error}
+                    onClose={() => setAuditLog(null)}
+                  />
+                )}
+
+                {/* Integrity report for the current data */}
+                {integrity && integrity.data === experimentData && (
+                  <IntegrityReportPanel report={integrity.report} onClose={() => setIntegrity(null)} />
+                )}
+
+                {/* Enrollment form: strata (if stratified) and a reason */}
+                {showStrataForm && (
+                  <StrataForm
+                    factors={experimentData.allocationMethod === 'stratified' ? experimentData.stratification?.factors ?? [] : []}
+                    onSubmit={handleEnrollParticipant}
+                    onCancel={() => setShowStrataForm(false)}
+                  />
+                )}
+
                 {/* Participant Cards */}
                 <div className="space-y-4">
                   {experimentData.participants.map((participant) => (
                     <ParticipantCard
                       key={participant.recordId}
                       participant={participant}
+                      design={experimentData.design}
                       onRemove={handleRemoveParticipant}
                       onRegenerate={handleRegenerateParticipant}
+                      onWithdraw={handleWithdrawParticipant}
+                      onReinstate={handleReinstateParticipant}
+                      onSessionStatusChange={handleSessionStatusChange}
+                      onRecordResult={handleRecordResult}
+                      onRunSession={(sessionNumber) => setRunningSession({ recordId: participant.recordId, sessionNumber })}
+                      onScheduleSession={handleScheduleSession}
                     />
                   ))}
                 </div>
 
-                {experimentData.participants.length === 0 && (
+                {experimentData.participants.length === 0 && !showStrataForm && (
                   <div className="text-center py-12">
                     <svg className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
@@ -316,7 +985,7 @@ export default function Home() {
         )}
 
         {/* Empty State */}
-        {!experimentData && !isLoading && (
+        {!experimentData && !isLoading && !loadError && (
           <section className="bg-card rounded-lg shadow-sm border border-border p-12 text-center">
             <div className="max-w-md mx-auto">
               <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -328,19 +997,25 @@ export default function Home() {
                 Ready to Generate Randomization
               </h3>
               <p className="text-muted-foreground mb-6">
-                Enter the number of participants above and click
+                Enter the number of participants above, adjust the study design if needed, and click
                 &quot;Generate Randomization&quot; to create the experiment assignment.
               </p>
               <div className="bg-muted/30 rounded-lg p-4 text-left text-sm">
                 <h4 className="font-medium text-card-foreground mb-2">
-                  Experiment Design:
+                  Default Experiment Design:
                 </h4>
                 <ul className="space-y-1 text-muted-foreground">
-                  <li>3 identical sessions per participant</li>
-                  <li>2 modalities: Ultrasound &amp; Palpation</li>
-                  <li>2 model types: Ball (4 spheres) &amp; Balloon (4 pressure points)</li>
-                  <li>5 repetitions per model (cycle structure)</li>
-                  <li>80 measurements per session = 240 total</li>
+                  <li>{DEFAULT_STUDY_DESIGN.sessionsPerParticipant} identical sessions per participant</li>
+                  <li>{DEFAULT_STUDY_DESIGN.modalities.length} modalities: {DEFAULT_STUDY_DESIGN.modalities.map(m => m.label).join(' & ')}</li>
+                  <li>
+                    {DEFAULT_STUDY_DESIGN.modelTypes.length} model types: Ball ({getModelTypeDefinition(DEFAULT_STUDY_DESIGN, 'ball').models.length} spheres)
+                    &amp; Balloon ({getModelTypeDefinition(DEFAULT_STUDY_DESIGN, 'balloon').models.length} pressure points)
+                  </li>
+                  <li>{DEFAULT_STUDY_DESIGN.repetitions} repetitions per model (cycle structure)</li>
+                  <li>
+                    {computeSummary(DEFAULT_STUDY_DESIGN, 1).measurementsPerSession} measurements per session
+                    = {computeSummary(DEFAULT_STUDY_DESIGN, 1).measurementsPerParticipant} total
+                  </li>
                 </ul>
               </div>
             </div>
@@ -356,6 +1031,19 @@ export default function Home() {
           </p>
         </div>
       </footer>
+
+      {/* Session Runner */}
+      {experimentData && runningParticipant && runningSessionEntry && (
+        <SessionRunner
+          participant={runningParticipant}
+          design={experimentData.design}
+          session={runningSessionEntry}
+          onStepChange={handleRunnerStepChange}
+          onRecordResult={handleRunnerRecordResult}
+          onComplete={handleRunnerComplete}
+          onClose={() => setRunningSession(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,79 @@
+'use client';
+
+import { AuditEntry, AUDIT_ACTION_LABELS, auditLogToCSV } from '@/lib/audit';
+import { downloadFile } from '@/lib/download';
+
+interface AuditLogPanelProps {
+  entries: AuditEntry[] | null; // null while loading
+  error: string | null;
+  onClose: () => void;
+}
+
+export default function AuditLogPanel({ entries, error, onClose }: AuditLogPanelProps) {
+  const handleExportCSV = () => {
+    if (!entries) return;
+    downloadFile(auditLogToCSV(entries), `audit_log_${new Date().toISOString().split('T')[0]}.csv`, 'text/csv;charset=utf-8;');
+  };
+
+  return (
+    <div className="mb-6 p-4 border border-border rounded-lg bg-muted/30">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-card-foreground">Audit Log</h3>
+          <p className="text-xs text-muted-foreground">
+            Every allocation change with who made it and why; entries cannot be edited
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleExportCSV}
+            disabled={!entries || entries.length === 0}
+            className="px-2 py-1 text-xs font-medium text-primary enabled:hover:bg-primary/10 rounded transition-colors enabled:cursor-pointer disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={onClose}
+            className="px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-muted rounded transition-colors cursor-pointer"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {!error && entries === null && <p className="text-sm text-muted-foreground animate-pulse">Loading audit log...</p>}
+      {entries && entries.length === 0 && <p className="text-sm text-muted-foreground">No changes recorded yet</p>}
+      {entries && entries.length > 0 && (
+        <div className="bg-card rounded-lg border border-border max-h-96 overflow-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-border text-left text-muted-foreground">
+                <th className="px-3 py-2 font-medium">Time</th>
+                <th className="px-3 py-2 font-medium">Actor</th>
+                <th className="px-3 py-2 font-medium">Action</th>
+                <th className="px-3 py-2 font-medium">Participant</th>
+                <th className="px-3 py-2 font-medium">Old Seed</th>
+                <th className="px-3 py-2 font-medium">New Seed</th>
+                <th className="px-3 py-2 font-medium">Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry, idx) => (
+                <tr key={idx} className="border-b border-border/50 last:border-b-0 text-card-foreground">
+                  <td className="px-3 py-1.5 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                  <td className="px-3 py-1.5">{entry.actor}</td>
+                  <td className="px-3 py-1.5 whitespace-nowrap">{AUDIT_ACTION_LABELS[entry.action] ?? entry.action}</td>
+                  <td className="px-3 py-1.5">{entry.recordId !== undefined ? `#${entry.recordId}` : '—'}</td>
+                  <td className="px-3 py-1.5 font-mono">{entry.oldSeed ?? '—'}</td>
+                  <td className="px-3 py-1.5 font-mono">{entry.newSeed ?? '—'}</td>
+                  <td className="px-3 py-1.5">{entry.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { ExperimentData } from '@/lib/randomization';
+import { ChangeJustification } from '@/lib/audit';
+import ReasonPrompt from '@/components/ReasonPrompt';
+
+interface DataRecoveryPanelProps {
+  message: string;
+  problems: string[];
+  backup: ExperimentData | null; // Valid copy from this device's backup
+  error?: string; // Last recovery attempt failed
+  onUseBackup: (data: ExperimentData, justification: ChangeJustification) => void;
+  onShowHistory: () => void;
+  onStartOver: (justification: ChangeJustification) => void;
+}
+
+// Shown instead of the study when its data fails validation
+export default function DataRecoveryPanel({
+  message,
+  problems,
+  backup,
+  error,
+  onUseBackup,
+  onShowHistory,
+  onStartOver,
+}: DataRecoveryPanelProps) {
+  const [confirming, setConfirming] = useState<'backup' | 'startOver' | null>(null);
+
+  return (
+    <div>
+      <p className="text-sm text-card-foreground mt-1">{message}</p>
+      <ul className="mt-2 mb-3 space-y-0.5 text-xs text-muted-foreground list-disc list-inside">
+        {problems.map((problem, idx) => (
+          <li key={idx}>{problem}</li>
+        ))}
+      </ul>
+      <p className="text-xs text-muted-foreground mb-3">
+        Nothing is saved over the stored data until you choose how to recover.
+        {backup && ` The backup on this device has ${backup.participants.length} participants (generated ${new Date(backup.generatedAt).toLocaleString()}).`}
+      </p>
+      {error && <p className="text-sm text-destructive mb-3">{error}</p>}
+
+      {confirming ? (
+        <ReasonPrompt
+          confirmLabel={confirming === 'backup' ? 'Use Backup' : 'Start Over'}
+          onConfirm={(justification) => {
+            setConfirming(null);
+            if (confirming === 'backup' && backup) {
+              onUseBackup(backup, justification);
+            } else {
+              onStartOver(justification);
+            }
+          }}
+          onCancel={() => setConfirming(null)}
+        />
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          {backup && (
+            <button
+              onClick={() => setConfirming('backup')}
+              className="px-4 py-2 rounded-lg font-medium text-sm bg-primary hover:bg-primary/90 text-primary-foreground transition-colors cursor-pointer"
+            >
+              Use Backup From This Device
+            </button>
+          )}
+          <button
+            onClick={onShowHistory}
+            className="px-4 py-2 rounded-lg font-medium text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground transition-colors cursor-pointer"
+          >
+            Restore From History
+          </button>
+          <button
+            onClick={() => setConfirming('startOver')}
+            className="px-4 py-2 rounded-lg font-medium text-sm bg-secondary hover:bg-secondary/80 text-destructive transition-colors cursor-pointer"
+          >
+            Start Over
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,100 @@
 'use client';
 
 import { useState } from 'react';
+import {
+  StudyDesign,
+  GenerationOptions,
+  AllocationMethod,
+  StratificationFactor,
+  DEFAULT_STRATIFICATION_FACTORS,
+  computeSummary,
+  getAllocationArms,
+  validateStudyDesign,
+  validateStratification,
+  MAX_MASTER_SEED,
+  isValidMasterSeed,
+} from '@/lib/randomization';
+import { ChangeJustification } from '@/lib/audit';
+import StudyDesignEditor from '@/components/StudyDesignEditor';
+import ReasonPrompt from '@/components/ReasonPrompt';
 
 interface ExperimentFormProps {
-  onGenerate: (participants: number) => void;
+  onGenerate: (participants: number, options: GenerationOptions, justification: ChangeJustification) => void;
   isLoading: boolean;
   hasExistingData: boolean;
+  initialDesign: StudyDesign;
 }
 
-export default function ExperimentForm({ onGenerate, isLoading, hasExistingData }: ExperimentFormProps) {
+// Returns the validation error of a design, or null if it can be generated
+function getDesignError(design: StudyDesign): string | null {
+  try {
+    validateStudyDesign(design);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid study design';
+  }
+}
+
+// Factors are edited one per line as "Label: level, level, ..."
+function formatFactors(factors: StratificationFactor[]): string {
+  return factors.map(f => `${f.label}: ${f.levels.join(', ')}`).join('\n');
+}
+
+function parseFactors(text: string): StratificationFactor[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line !== '')
+    .map(line => {
+      const [label, levels = ''] = line.split(':');
+      return {
+        id: label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+        label: label.trim(),
+        levels: levels.split(',').map(level => level.trim()).filter(level => level !== ''),
+      };
+    });
+}
+
+// Returns the validation error of stratification settings, or null if valid
+function getStratificationError(settings: { factors: StratificationFactor[]; blockSize: number }, design: StudyDesign): string | null {
+  try {
+    validateStratification(settings, design);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid stratification';
+  }
+}
+
+export default function ExperimentForm({ onGenerate, isLoading, hasExistingData, initialDesign }: ExperimentFormProps) {
   const [inputValue, setInputValue] = useState('25');
+  const [design, setDesign] = useState<StudyDesign>(initialDesign);
+  const [masterSeedValue, setMasterSeedValue] = useState('');
+  const [allocationMethod, setAllocationMethod] = useState<AllocationMethod>('random');
+  const [factorsText, setFactorsText] = useState(formatFactors(DEFAULT_STRATIFICATION_FACTORS));
+  const [blocksPerArm, setBlocksPerArm] = useState(1);
+  const [isCompactStorage, setIsCompactStorage] = useState(false);
+  // Generating is confirmed with a reason for the audit trail
+  const [isConfirming, setIsConfirming] = useState(false);
 
   // Parse and validate the input
   const parsedValue = parseInt(inputValue, 10);
   const isValidNumber = !isNaN(parsedValue) && parsedValue >= 1 && parsedValue <= 50;
   const participants = isValidNumber ? parsedValue : 0;
-  const totalMeasurements = participants * 240;
+  const designError = getDesignError(design);
+  // An empty master seed means "draw one at random"
+  const masterSeed = masterSeedValue.trim() === '' ? undefined : Number(masterSeedValue);
+  const isValidSeed = masterSeed === undefined || isValidMasterSeed(masterSeed);
+  const isStratified = allocationMethod === 'stratified';
+  const armCount = designError === null ? getAllocationArms(design).length : 0;
+  const stratification = {
+    factors: parseFactors(factorsText),
+    blockSize: armCount * blocksPerArm,
+  };
+  const stratificationError = isStratified && designError === null
+    ? getStratificationError(stratification, design)
+    : null;
+  const canGenerate = (isValidNumber || isStratified) && isValidSeed && designError === null && stratificationError === null;
+  const totalMeasurements = canGenerate ? computeSummary(design, participants).totalMeasurements : 0;
 
   // Determine validation message
   const getValidationMessage = () => {
@@ -30,43 +109,162 @@ export default function ExperimentForm({ onGenerate, isLoading, hasExistingData
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (isValidNumber) {
-      onGenerate(parsedValue);
+    if (canGenerate) {
+      setIsConfirming(true);
     }
   };
 
+  const handleConfirm = (justification: ChangeJustification) => {
+    setIsConfirming(false);
+    onGenerate(
+      isStratified ? 0 : parsedValue,
+      {
+        design,
+        masterSeed,
+        allocationMethod,
+        ...(isStratified && { stratification }),
+        ...(isCompactStorage && { storageFormat: 'compact' as const }),
+      },
+      justification
+    );
+  };
+
   return (
     <form onSubmit={handleSubmit} className="bg-card rounded-lg shadow-sm border border-border p-6">
       <h2 className="text-lg font-semibold text-card-foreground mb-4">
         Participant Configuration
       </h2>
 
+      {!isStratified && (
+        <div className="mb-6">
+          <label htmlFor="participants" className="block text-sm font-medium text-card-foreground mb-2">
+            Number of Participants
+          </label>
+          <div className="relative max-w-xs">
+            <input
+              type="number"
+              id="participants"
+              min="1"
+              max="50"
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              className={`w-full px-4 py-2.5 border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-transparent transition-all [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none ${
+                validationMessage ? 'border-destructive' : 'border-input'
+              }`}
+            />
+            <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none">
+              <span className="inline-flex items-center justify-center w-6 h-6 bg-primary/10 rounded-full">
+                <svg className="w-3.5 h-3.5 text-primary" fill="currentColor" viewBox="0 0 20 20">
+                  <path d="M9 6a3 3 0 11-6 0 3 3 0 016 0zM17 6a3 3 0 11-6 0 3 3 0 016 0zM12.93 17c.046-.327.07-.66.07-1a6.97 6.97 0 00-1.5-4.33A5 5 0 0119 16v1h-6.07zM6 11a5 5 0 015 5v1H1v-1a5 5 0 015-5z" />
+                </svg>
+              </span>
+            </div>
+          </div>
+          {validationMessage && (
+            <p className="mt-2 text-sm text-destructive">{validationMessage}</p>
+          )}
+        </div>
+      )}
+
       <div className="mb-6">
-        <label htmlFor="participants" className="block text-sm font-medium text-card-foreground mb-2">
-          Number of Participants
+        <label htmlFor="masterSeed" className="block text-sm font-medium text-card-foreground mb-2">
+          Master Seed <span className="font-normal text-muted-foreground">(optional)</span>
         </label>
-        <div className="relative max-w-xs">
+        <div className="max-w-xs">
           <input
-            type="number"
-            id="participants"
-            min="1"
-            max="50"
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            className={`w-full px-4 py-2.5 border rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-transparent transition-all [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none ${
-              validationMessage ? 'border-destructive' : 'border-input'
+            type="text"
+            inputMode="numeric"
+            id="masterSeed"
+            value={masterSeedValue}
+            onChange={(e) => setMasterSeedValue(e.target.value)}
+            placeholder="Random if left empty"
+            className={`w-full px-4 py-2.5 border rounded-lg bg-background text-foreground font-mono focus:ring-2 focus:ring-ring focus:border-transparent transition-all ${
+              isValidSeed ? 'border-input' : 'border-destructive'
             }`}
           />
-          <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none">
-            <span className="inline-flex items-center justify-center w-6 h-6 bg-primary/10 rounded-full">
-              <svg className="w-3.5 h-3.5 text-primary" fill="currentColor" viewBox="0 0 20 20">
-                <path d="M9 6a3 3 0 11-6 0 3 3 0 016 0zM17 6a3 3 0 11-6 0 3 3 0 016 0zM12.93 17c.046-.327.07-.66.07-1a6.97 6.97 0 00-1.5-4.33A5 5 0 0119 16v1h-6.07zM6 11a5 5 0 015 5v1H1v-1a5 5 0 015-5z" />
-              </svg>
-            </span>
+        </div>
+        {isValidSeed ? (
+          <p className="mt-2 text-xs text-muted-foreground">
+            All participant seeds are derived from the master seed, so the allocation list can be re-created from it.
+          </p>
+        ) : (
+          <p className="mt-2 text-sm text-destructive">Master seed must be a whole number from 0 to {MAX_MASTER_SEED}</p>
+        )}
+      </div>
+
+      <div className="mb-6">
+        <label htmlFor="allocationMethod" className="block text-sm font-medium text-card-foreground mb-2">
+          Allocation Method
+        </label>
+        <select
+          id="allocationMethod"
+          value={allocationMethod}
+          onChange={(e) => setAllocationMethod(e.target.value as AllocationMethod)}
+          className="w-full max-w-xs px-4 py-2.5 border border-input rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-transparent transition-all cursor-pointer"
+        >
+          <option value="random">Pure random</option>
+          <option value="williams">Counterbalanced (Williams design)</option>
+          <option value="stratified">Stratified permuted blocks</option>
+        </select>
+        <p className="mt-2 text-xs text-muted-foreground">
+          {allocationMethod === 'random' && 'Each participant gets independently shuffled orders.'}
+          {allocationMethod === 'williams' && 'Orders are assigned from balanced Latin squares across participants, so every order position and first-order carryover is balanced after each complete square.'}
+          {allocationMethod === 'stratified' && 'Modality-first and model-type-first arms are allocated in permuted blocks within each stratum. Participants are enrolled one at a time with their covariates.'}
+        </p>
+      </div>
+
+      {isStratified && (
+        <div className="mb-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <label htmlFor="stratificationFactors" className="block text-sm font-medium text-card-foreground mb-2">
+              Stratification Factors
+            </label>
+            <textarea
+              id="stratificationFactors"
+              rows={4}
+              value={factorsText}
+              onChange={(e) => setFactorsText(e.target.value)}
+              className="w-full px-4 py-2.5 border border-input rounded-lg bg-background text-foreground text-sm font-mono focus:ring-2 focus:ring-ring focus:border-transparent transition-all"
+            />
+            <p className="mt-1 text-xs text-muted-foreground">One factor per line, as &quot;Label: level, level&quot;</p>
+          </div>
+          <div>
+            <label htmlFor="blockSize" className="block text-sm font-medium text-card-foreground mb-2">
+              Block Size
+            </label>
+            <select
+              id="blockSize"
+              value={blocksPerArm}
+              onChange={(e) => setBlocksPerArm(parseInt(e.target.value, 10))}
+              className="w-full px-4 py-2.5 border border-input rounded-lg bg-background text-foreground focus:ring-2 focus:ring-ring focus:border-transparent transition-all cursor-pointer"
+            >
+              {[1, 2, 3].map(multiple => (
+                <option key={multiple} value={multiple}>
+                  {armCount * multiple} ({multiple}× {armCount} arms)
+                </option>
+              ))}
+            </select>
           </div>
+          {stratificationError && (
+            <p className="md:col-span-3 text-sm text-destructive">{stratificationError}</p>
+          )}
         </div>
-        {validationMessage && (
-          <p className="mt-2 text-sm text-destructive">{validationMessage}</p>
+      )}
+
+      <div className="mb-6">
+        <label className="flex items-center gap-2 text-sm font-medium text-card-foreground cursor-pointer">
+          <input type="checkbox" checked={isCompactStorage} onChange={(e) => setIsCompactStorage(e.target.checked)} />
+          Compact storage
+        </label>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Only seeds, session status and results are saved; sessions are regenerated from the seeds when the study is opened.
+        </p>
+      </div>
+
+      <div className="mb-6">
+        <StudyDesignEditor design={design} onChange={setDesign} />
+        {designError && (
+          <p className="mt-2 text-sm text-destructive">{designError}</p>
         )}
       </div>
 
@@ -74,19 +272,19 @@ export default function ExperimentForm({ onGenerate, isLoading, hasExistingData
         <div className="flex flex-wrap gap-4 text-sm">
           <div className="flex items-center gap-2">
             <span className="text-muted-foreground">Total Participants:</span>
-            <span className="font-semibold text-card-foreground">{isValidNumber ? participants : '—'}</span>
+            <span className="font-semibold text-card-foreground">{isStratified ? 'Enrolled individually' : isValidNumber ? participants : '—'}</span>
           </div>
           <div className="flex items-center gap-2">
             <span className="text-muted-foreground">Total Measurements:</span>
-            <span className="font-semibold text-card-foreground">{isValidNumber ? totalMeasurements.toLocaleString() : '—'}</span>
+            <span className="font-semibold text-card-foreground">{canGenerate && !isStratified ? totalMeasurements.toLocaleString() : '—'}</span>
           </div>
         </div>
 
         <button
           type="submit"
-          disabled={!isValidNumber || isLoading}
+          disabled={!canGenerate || isLoading}
           className={`px-6 py-2.5 rounded-lg font-medium transition-all ${
-            !isValidNumber || isLoading
+            !canGenerate || isLoading
               ? 'bg-muted text-muted-foreground cursor-not-allowed'
               : 'bg-primary hover:bg-primary/90 text-primary-foreground shadow-sm hover:shadow-md cursor-pointer'
           }`}
@@ -107,6 +305,18 @@ export default function ExperimentForm({ onGenerate, isLoading, hasExistingData
         </button>
       </div>
 
+      {isConfirming && (
+        <div className="mt-3 flex justify-end">
+          <ReasonPrompt
+            confirmLabel={hasExistingData ? 'Regenerate' : 'Generate'}
+            placeholder={hasExistingData ? 'Justification (required)' : 'Reason (required)'}
+            disabled={!canGenerate}
+            onConfirm={handleConfirm}
+            onCancel={() => setIsConfirming(false)}
+          />
+        </div>
+      )}
+
       {hasExistingData && (
         <p className="mt-3 text-xs text-muted-foreground">
           Existing data found. Click &quot;Regenerate&quot; to create new randomizations.
@@ -1,74 +1,73 @@
 'use client';
 
-import { ExperimentData, exportToJSON, flattenForExcel } from '@/lib/randomization';
+import { useState } from 'react';
+import {
+  ExperimentData,
+  SESSION_STATUSES,
+  exportToJSON,
+  exportToCSV,
+  describeAllocationMethod,
+  describeStatus,
+  getAllocationArms,
+  getStratumBalance,
+  getStratumKey,
+  getParticipantStatus,
+  getSessionStatus,
+  getStudyProgress,
+  isWithdrawn,
+} from '@/lib/randomization';
+import { verifyExperimentData, formatIntegrityReport } from '@/lib/verification';
+import { buildICalendar, countPlannedSessions } from '@/lib/calendar';
+import { buildRedcapAllocationTable } from '@/lib/redcap';
+import { buildWorkbook } from '@/lib/workbook';
+import { downloadFile } from '@/lib/download';
 
 interface ExportButtonsProps {
   data: ExperimentData | null;
 }
 
 export default function ExportButtons({ data }: ExportButtonsProps) {
+  // Calendar scope: 'all' or a participant's record ID
+  const [calendarScope, setCalendarScope] = useState('all');
+
   if (!data) return null;
 
+  const calendarParticipants = calendarScope === 'all'
+    ? data.participants.filter(p => !isWithdrawn(p))
+    : data.participants.filter(p => String(p.recordId) === calendarScope);
+  const plannedSessionCount = countPlannedSessions(calendarParticipants);
+  const today = new Date().toISOString().split('T')[0];
+
+  const handleExportCalendar = () => {
+    downloadFile(
+      buildICalendar(data, calendarParticipants),
+      calendarScope === 'all' ? `study_schedule_${today}.ics` : `participant_${calendarScope}_schedule.ics`,
+      'text/calendar;charset=utf-8'
+    );
+  };
+
   const handleExportJSON = () => {
-    const json = exportToJSON(data);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `experiment_data_${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(exportToJSON(data, verifyExperimentData(data)), `experiment_data_${today}.json`, 'application/json');
   };
 
   const handleExportCSV = () => {
-    const flatData = flattenForExcel(data);
-
-    const headers = [
-      'Participant ID',
-      'Random Seed',
-      'Session',
-      'Modality',
-      'Modality Order',
-      'Model Type',
-      'Model Type Order',
-      'Repetition',
-      'Model Position',
-      'Model ID',
-      'Model Name',
-      'Measurement Number',
-    ];
+    downloadFile(exportToCSV(data, verifyExperimentData(data)), `experiment_data_${today}.csv`, 'text/csv;charset=utf-8;');
+  };
+
+  const handleExportXLSX = async () => {
+    try {
+      downloadFile(
+        await buildWorkbook(data),
+        `experiment_data_${today}.xlsx`,
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
+    } catch (error) {
+      console.error('Error exporting workbook:', error);
+    }
+  };
 
-    const rows = flatData.map(row => [
-      row.participantId,
-      row.randomSeed,
-      row.session,
-      row.modality,
-      row.modalityOrder,
-      row.modelType,
-      row.modelTypeOrder,
-      row.repetition,
-      row.modelPosition,
-      row.modelId,
-      row.modelName,
-      row.measurementNumber,
-    ]);
-
-    const csvContent = [
-      headers.join(','),
-      ...rows.map(row => row.join(',')),
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `experiment_data_${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleExportRedcap = () => {
+    downloadFile(buildRedcapAllocationTable(data), `redcap_allocation_${today}.csv`, 'text/csv;charset=utf-8;');
   };
 
   const handleExportSummary = () => {
@@ -76,23 +75,66 @@ export default function ExportButtons({ data }: ExportButtonsProps) {
       '# Experiment Randomization Summary',
       '',
       `Generated: ${new Date(data.generatedAt).toLocaleString()}`,
+      `Allocation Method: ${describeAllocationMethod(data.allocationMethod)}`,
+      `Algorithm Version: ${data.algorithmVersion ?? '?'}`,
+      ...(data.masterSeed !== undefined
+        ? [`Master Seed: ${data.masterSeed} (${data.seedsIssued ?? data.participants.length} participant seeds drawn)`]
+        : []),
       '',
       '## Participant Counts',
-      `- Total: ${data.summary.totalParticipants}`,
+      `- Total Records: ${data.summary.totalParticipants}`,
+      `- Active: ${data.summary.activeParticipants ?? data.summary.totalParticipants}`,
+      `- Withdrawn: ${data.summary.withdrawnParticipants ?? 0}`,
       '',
       '## Measurement Counts',
       `- Per Session: ${data.summary.measurementsPerSession}`,
       `- Per Participant: ${data.summary.measurementsPerParticipant}`,
-      `- Total: ${data.summary.totalMeasurements}`,
-      '',
-      '## Participant Randomization Details',
+      `- Total (active participants): ${data.summary.totalMeasurements}`,
       '',
     ];
 
+    const progress = getStudyProgress(data);
+    summaryLines.push(
+      '## Study Progress',
+      `- Sessions Completed: ${progress.completedSessions} / ${progress.plannedSessions}`,
+      ...[...SESSION_STATUSES, 'withdrawn' as const].map(s => `- ${describeStatus(s)}: ${progress.participantsByStatus[s]} participants`),
+      '',
+    );
+
+    if (data.stratification) {
+      const arms = getAllocationArms(data.design);
+      const balance = getStratumBalance(data);
+      const unassigned = balance.flatMap(b => b.unassigned);
+      summaryLines.push(
+        '## Stratum Balance',
+        `Block size: ${data.stratification.blockSize}`,
+        '',
+        `| Stratum | Participants | ${arms.map(a => `${a.modalityFirst} / ${a.modelTypeFirst} first`).join(' | ')} |`,
+        `|---|---|${arms.map(() => '---').join('|')}|`,
+        ...balance.map(b => `| ${b.stratum} | ${b.participants} | ${b.armCounts.join(' | ')} |`),
+        '',
+        ...(unassigned.length > 0 ? [`Not in any arm: ${unassigned.map(id => `#${id}`).join(', ')}`, ''] : []),
+      );
+    }
+
+    summaryLines.push('## Participant Randomization Details', '');
+
     for (const participant of data.participants) {
       const session = participant.sessions[0];
-      summaryLines.push(`### Participant #${participant.recordId}`);
+      summaryLines.push(`### Participant #${participant.recordId}${isWithdrawn(participant) ? ' (withdrawn)' : ''}`);
+      if (participant.withdrawnAt) {
+        summaryLines.push(`- Withdrawn: ${new Date(participant.withdrawnAt).toLocaleString()}${participant.withdrawalReason ? ` (${participant.withdrawalReason})` : ''}`);
+      }
+      summaryLines.push(`- Status: ${describeStatus(getParticipantStatus(participant))}`);
+      summaryLines.push(`- Sessions: ${participant.sessions.map(s => `${s.sessionNumber} ${describeStatus(getSessionStatus(participant, s))}`).join(', ')}`);
       summaryLines.push(`- Random Seed: ${participant.randomSeed}`);
+      summaryLines.push(`- Algorithm Version: ${participant.algorithmVersion ?? '?'}`);
+      if (participant.strata && data.stratification) {
+        summaryLines.push(`- Stratum: ${getStratumKey(participant.strata, data.stratification.factors)}`);
+      }
+      if (participant.allocationIndex !== undefined) {
+        summaryLines.push(`- ${participant.strata ? 'Stratum' : 'Counterbalancing'} Slot: ${participant.allocationIndex + 1}`);
+      }
       summaryLines.push(`- Modality Order: ${session.modalityOrder.join(' → ')}`);
       summaryLines.push(`- Model Type Order: ${session.modelTypeOrder.join(' → ')}`);
       summaryLines.push(`- Ball Sphere Order: ${session.ballSphereOrder.join(' → ')}`);
@@ -100,15 +142,9 @@ export default function ExportButtons({ data }: ExportButtonsProps) {
       summaryLines.push('');
     }
 
-    const blob = new Blob([summaryLines.join('\n')], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `experiment_summary_${new Date().toISOString().split('T')[0]}.md`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    summaryLines.push(...formatIntegrityReport(verifyExperimentData(data)));
+
+    downloadFile(summaryLines.join('\n'), `experiment_summary_${today}.md`, 'text/markdown');
   };
 
   return (
@@ -133,6 +169,28 @@ export default function ExportButtons({ data }: ExportButtonsProps) {
         CSV
       </button>
 
+      <button
+        onClick={handleExportXLSX}
+        title="Excel workbook: overview plus one printable sheet per participant"
+        className="flex items-center gap-2 px-4 py-2 bg-accent hover:bg-accent/80 text-accent-foreground rounded-lg font-medium text-sm transition-colors cursor-pointer"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        </svg>
+        XLSX
+      </button>
+
+      <button
+        onClick={handleExportRedcap}
+        title="Allocation table with coded fields for REDCap's data import tool"
+        className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg font-medium text-sm transition-colors cursor-pointer"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18M10 3v18M5 3h14a2 2 0 012 2v14a2 2 0 01-2 2H5a2 2 0 01-2-2V5a2 2 0 012-2z" />
+        </svg>
+        REDCap
+      </button>
+
       <button
         onClick={handleExportSummary}
         className="flex items-center gap-2 px-4 py-2 bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-lg font-medium text-sm transition-colors cursor-pointer"
@@ -142,6 +200,31 @@ export default function ExportButtons({ data }: ExportButtonsProps) {
         </svg>
         Summary
       </button>
+
+      <div className="flex items-center">
+        <select
+          value={calendarScope}
+          onChange={(e) => setCalendarScope(e.target.value)}
+          aria-label="Calendar participants"
+          className="px-2 py-2 border border-input rounded-l-lg bg-background text-foreground text-sm cursor-pointer"
+        >
+          <option value="all">All participants</option>
+          {data.participants.filter(p => !isWithdrawn(p)).map(p => (
+            <option key={p.recordId} value={String(p.recordId)}>Participant #{p.recordId}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleExportCalendar}
+          disabled={plannedSessionCount === 0}
+          title={plannedSessionCount === 0 ? 'No sessions have been scheduled yet' : `${plannedSessionCount} planned sessions`}
+          className="flex items-center gap-2 px-4 py-2 bg-secondary enabled:hover:bg-secondary/80 text-secondary-foreground rounded-r-lg font-medium text-sm transition-colors enabled:cursor-pointer disabled:opacity-50"
+        >
+          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+          </svg>
+          Calendar
+        </button>
+      </div>
     </div>
   );
 }
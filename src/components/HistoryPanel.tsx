@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { ExperimentData, describeAllocationMethod, getParticipantStatus, describeStatus } from '@/lib/randomization';
+import { Snapshot, MAX_SNAPSHOTS, diffExperimentData } from '@/lib/history';
+import { ChangeJustification } from '@/lib/audit';
+import ReasonPrompt from '@/components/ReasonPrompt';
+
+interface HistoryPanelProps {
+  snapshots: Snapshot[] | null; // null while loading
+  error: string | null;
+  current: ExperimentData | null;
+  onRestore: (data: ExperimentData, justification: ChangeJustification) => void;
+  onClose: () => void;
+}
+
+function SnapshotRow({ snapshot, current, onRestore }: {
+  snapshot: Snapshot;
+  current: ExperimentData | null;
+  onRestore: (justification: ChangeJustification) => void;
+}) {
+  const [view, setView] = useState<'diff' | 'inspect' | null>(null);
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const { data } = snapshot;
+  const changes = current ? diffExperimentData(data, current) : [];
+
+  return (
+    <li className="py-2 border-b border-border/50 last:border-b-0">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm text-card-foreground">
+          {new Date(snapshot.savedAt).toLocaleString()}
+          <span className="ml-2 text-xs text-muted-foreground">
+            {data.participants.length} participants · {describeAllocationMethod(data.allocationMethod)}
+            {current && changes.length === 0 && ' · same as current'}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setView(view === 'diff' ? null : 'diff')}
+            disabled={!current}
+            className="px-2 py-1 text-xs font-medium text-muted-foreground enabled:hover:bg-muted rounded transition-colors enabled:cursor-pointer disabled:opacity-50"
+          >
+            Diff
+          </button>
+          <button
+            onClick={() => setView(view === 'inspect' ? null : 'inspect')}
+            className="px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-muted rounded transition-colors cursor-pointer"
+          >
+            Inspect
+          </button>
+          {confirmRestore ? (
+            <ReasonPrompt
+              confirmLabel="Restore"
+              onConfirm={onRestore}
+              onCancel={() => setConfirmRestore(false)}
+            />
+          ) : (
+            <button
+              onClick={() => setConfirmRestore(true)}
+              disabled={!!current && changes.length === 0}
+              className="px-2 py-1 text-xs font-medium text-primary enabled:hover:bg-primary/10 rounded transition-colors enabled:cursor-pointer disabled:opacity-50"
+            >
+              Restore
+            </button>
+          )}
+        </div>
+      </div>
+
+      {view === 'diff' && (
+        <ul className="mt-2 px-2 space-y-0.5 text-xs text-muted-foreground">
+          <li className="font-medium text-card-foreground">Changes from this version to the current data:</li>
+          {changes.length === 0 && <li>No differences</li>}
+          {changes.map((change, idx) => (
+            <li key={idx}>{change}</li>
+          ))}
+        </ul>
+      )}
+
+      {view === 'inspect' && (
+        <div className="mt-2 px-2 text-xs text-muted-foreground space-y-0.5">
+          <p>Generated: {new Date(data.generatedAt).toLocaleString()}</p>
+          {data.masterSeed !== undefined && <p>Master Seed: {data.masterSeed}</p>}
+          <ul className="mt-1 font-mono">
+            {data.participants.map(p => (
+              <li key={p.recordId}>
+                #{p.recordId} · seed {p.randomSeed} · {describeStatus(getParticipantStatus(p))} · {p.sessions[0]?.modalityOrder.join(' → ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export default function HistoryPanel({ snapshots, error, current, onRestore, onClose }: HistoryPanelProps) {
+  return (
+    <div className="mb-6 p-4 border border-border rounded-lg bg-muted/30">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-card-foreground">Version History</h3>
+          <p className="text-xs text-muted-foreground">
+            Every save keeps a snapshot; the newest {MAX_SNAPSHOTS} are retained
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-muted rounded transition-colors cursor-pointer"
+        >
+          Close
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {!error && snapshots === null && <p className="text-sm text-muted-foreground animate-pulse">Loading history...</p>}
+      {snapshots && snapshots.length === 0 && <p className="text-sm text-muted-foreground">No snapshots yet</p>}
+      {snapshots && snapshots.length > 0 && (
+        <ul className="bg-card rounded-lg border border-border px-3 max-h-96 overflow-y-auto">
+          {snapshots.map(snapshot => (
+            <SnapshotRow
+              key={snapshot.id}
+              snapshot={snapshot}
+              current={current}
+              onRestore={(justification) => onRestore(snapshot.data, justification)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
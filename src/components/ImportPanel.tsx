@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { ExperimentData, describeAllocationMethod } from '@/lib/randomization';
+import { diffExperimentData } from '@/lib/history';
+import { ImportedData, importExperimentData, mergeImportedData } from '@/lib/importData';
+import { getValidationProblems } from '@/lib/validation';
+import { ChangeJustification } from '@/lib/audit';
+import ReasonPrompt from '@/components/ReasonPrompt';
+
+interface ImportPanelProps {
+  current: ExperimentData | null;
+  onImport: (data: ExperimentData, justification: ChangeJustification, enrolled: number[]) => void;
+  onClose: () => void;
+}
+
+// Reads a JSON or CSV export, previews it against the current data and
+// replaces or merges it in. A REDCap record export is aligned with the
+// current data instead.
+export default function ImportPanel({ current, onImport, onClose }: ImportPanelProps) {
+  const [fileName, setFileName] = useState('');
+  const [imported, setImported] = useState<ImportedData | null>(null);
+  const [error, setError] = useState<{ message: string; problems: string[] } | null>(null);
+  const [mode, setMode] = useState<'replace' | 'merge'>('replace');
+  const [confirming, setConfirming] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setImported(null);
+    setError(null);
+    setConfirming(false);
+    try {
+      const result = importExperimentData(file.name, await file.text(), current);
+      setImported(result);
+      setMode('replace');
+    } catch (error) {
+      console.error('Error importing file:', error);
+      setError({
+        message: error instanceof Error ? error.message : 'The file could not be read',
+        problems: getValidationProblems(error),
+      });
+    }
+  };
+
+  // What the study would look like after the import
+  let preview: { data: ExperimentData; kept: number[] } | null = null;
+  let mergeError: string | null = null;
+  if (imported) {
+    if (mode === 'merge' && current) {
+      try {
+        preview = mergeImportedData(current, imported.data);
+      } catch (error) {
+        mergeError = error instanceof Error ? error.message : 'The data could not be merged';
+      }
+    } else {
+      preview = { data: imported.data, kept: [] };
+    }
+  }
+  const changes = preview && current ? diffExperimentData(current, preview.data) : [];
+
+  return (
+    <div className="mb-8 p-4 border border-border rounded-lg bg-muted/30">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-card-foreground">Import Data</h3>
+          <p className="text-xs text-muted-foreground">
+            JSON or CSV exports of this app, or a REDCap record export; every participant is checked against its seed
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-muted rounded transition-colors cursor-pointer"
+        >
+          Close
+        </button>
+      </div>
+
+      <label className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground transition-colors cursor-pointer">
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+        </svg>
+        Choose File
+        <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFile} className="hidden" />
+      </label>
+      {fileName && <span className="ml-3 text-sm text-muted-foreground">{fileName}</span>}
+
+      {error && (
+        <div className="mt-3">
+          <p className="text-sm text-destructive">{error.message}</p>
+          {error.problems.length > 0 && (
+            <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground list-disc list-inside">
+              {error.problems.map((problem, idx) => (
+                <li key={idx}>{problem}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {imported && (
+        <div className="mt-3 space-y-3">
+          <p className="text-sm text-card-foreground">
+            {imported.format === 'redcap' && 'REDCap record list · after alignment: '}
+            {imported.data.participants.length} participants · {describeAllocationMethod(imported.data.allocationMethod)} ·
+            generated {new Date(imported.data.generatedAt).toLocaleString()} · all seeds verified
+          </p>
+          {imported.notes.length > 0 && (
+            <ul className="space-y-0.5 text-xs text-muted-foreground list-disc list-inside">
+              {imported.notes.map((note, idx) => (
+                <li key={idx}>{note}</li>
+              ))}
+            </ul>
+          )}
+
+          {current && imported.format !== 'redcap' && (
+            <div className="flex items-center gap-4 text-sm text-card-foreground">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                Replace current data
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                Merge (add missing participants, keep current ones)
+              </label>
+            </div>
+          )}
+
+          {mergeError && <p className="text-sm text-destructive">{mergeError}</p>}
+
+          {preview && current && (
+            <ul className="px-2 space-y-0.5 text-xs text-muted-foreground">
+              <li className="font-medium text-card-foreground">Changes to the current data:</li>
+              {changes.length === 0 && <li>No differences</li>}
+              {changes.map((change, idx) => (
+                <li key={idx}>{change}</li>
+              ))}
+              {preview.kept.length > 0 && (
+                <li>Kept as they are (different in the file): {preview.kept.map(id => `#${id}`).join(', ')}</li>
+              )}
+            </ul>
+          )}
+
+          {preview && (confirming ? (
+            <ReasonPrompt
+              confirmLabel="Import"
+              onConfirm={(justification) => onImport(preview.data, justification, imported.enrolled ?? [])}
+              onCancel={() => setConfirming(false)}
+            />
+          ) : (
+            <button
+              onClick={() => setConfirming(true)}
+              disabled={!!current && changes.length === 0}
+              className="px-4 py-2 rounded-lg font-medium text-sm bg-primary enabled:hover:bg-primary/90 text-primary-foreground transition-colors enabled:cursor-pointer disabled:opacity-50"
+            >
+              {imported.format === 'redcap' ? 'Align With REDCap' : mode === 'merge' ? 'Merge Into Study' : current ? 'Replace Study Data' : 'Import Study'}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
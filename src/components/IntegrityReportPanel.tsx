@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { IntegrityReport, ParticipantVerification } from '@/lib/verification';
+
+interface IntegrityReportPanelProps {
+  report: IntegrityReport;
+  onClose: () => void;
+}
+
+function ParticipantRow({ result }: { result: ParticipantVerification }) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <li className="border-b border-border/50 last:border-b-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={result.passed}
+        className="w-full py-2 px-2 flex items-center justify-between text-sm text-left enabled:cursor-pointer enabled:hover:bg-muted/30"
+      >
+        <span className="text-card-foreground">
+          Participant #{result.recordId}
+          <span className="ml-2 text-xs text-muted-foreground">
+            Seed: {result.randomSeed}
+            {result.algorithmVersion !== undefined && ` · Algorithm v${result.algorithmVersion}`}
+          </span>
+        </span>
+        {result.passed ? (
+          <span className="px-2 py-0.5 text-xs font-medium rounded bg-chart-2/20 text-chart-2">Pass</span>
+        ) : (
+          <span className="px-2 py-0.5 text-xs font-medium rounded bg-destructive/10 text-destructive">
+            Fail · {result.totalMismatches} {result.totalMismatches === 1 ? 'mismatch' : 'mismatches'}
+          </span>
+        )}
+      </button>
+      {isOpen && !result.passed && (
+        <ul className="px-4 pb-2 space-y-0.5 text-xs text-muted-foreground font-mono">
+          {result.mismatches.map((mismatch, idx) => (
+            <li key={idx}>{mismatch}</li>
+          ))}
+          {result.totalMismatches > result.mismatches.length && (
+            <li>… {result.totalMismatches - result.mismatches.length} more</li>
+          )}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export default function IntegrityReportPanel({ report, onClose }: IntegrityReportPanelProps) {
+  const failedCount = report.participants.filter(p => !p.passed).length;
+
+  return (
+    <div className={`mb-6 p-4 border rounded-lg ${
+      report.passed ? 'border-border bg-muted/30' : 'border-destructive/20 bg-destructive/10'
+    }`}>
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className={`text-sm font-semibold ${report.passed ? 'text-card-foreground' : 'text-destructive'}`}>
+            {report.passed
+              ? 'All stored randomizations match their seeds'
+              : `${failedCount} of ${report.participants.length} participants do not match their seeds`}
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Verified: {new Date(report.verifiedAt).toLocaleString()}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-muted rounded transition-colors cursor-pointer"
+        >
+          Close
+        </button>
+      </div>
+
+      <ul className="bg-card rounded-lg border border-border max-h-80 overflow-y-auto">
+        {report.participants.map(result => (
+          <ParticipantRow key={result.recordId} result={result} />
+        ))}
+      </ul>
+
+      {report.storedExpanded.length > 0 && (
+        <p className="mt-3 px-2 text-xs text-destructive">
+          Stored in full, as their compact form doesn&apos;t reproduce them: {report.storedExpanded.map(id => `#${id}`).join(', ')}
+        </p>
+      )}
+
+      {report.migrations.length > 0 && (
+        <ul className="mt-3 px-2 space-y-0.5 text-xs text-muted-foreground">
+          <li className="font-medium text-card-foreground">Schema upgrades applied to this data:</li>
+          {report.migrations.map(migration => (
+            <li key={`${migration.version}-${migration.migratedAt}`}>
+              v{migration.version} · {new Date(migration.migratedAt).toLocaleString()} · {migration.description}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,51 @@
 'use client';
 
 import { useState } from 'react';
-import { Participant, Session, ModalityBlock, ModelTypeBlock } from '@/lib/randomization';
+import {
+  Participant,
+  Session,
+  SessionStatus,
+  ModalityBlock,
+  ModelTypeBlock,
+  ModelType,
+  Measurement,
+  MeasurementKey,
+  MeasurementResult,
+  MeasurementInput,
+  ModelDefinition,
+  SessionSchedule,
+  StudyDesign,
+  SESSION_STATUSES,
+  COMPRESSIBILITY_RATINGS,
+  describeStatus,
+  isWithdrawn,
+  hasStartedSessions,
+  getSessionStatus,
+  getParticipantStatus,
+  getNextSession,
+  getSessionDuration,
+  getModalityBlockDuration,
+  getScheduleError,
+} from '@/lib/randomization';
+import StatusBadge from '@/components/StatusBadge';
+import ReasonPrompt from '@/components/ReasonPrompt';
+import { ChangeJustification } from '@/lib/audit';
 
 interface ParticipantCardProps {
   participant: Participant;
-  onRemove: (recordId: number) => void;
-  onRegenerate: (recordId: number) => void;
+  design: StudyDesign;
+  onRemove: (recordId: number, justification: ChangeJustification) => void;
+  onRegenerate: (recordId: number, justification: ChangeJustification) => void;
+  onWithdraw: (recordId: number, justification: ChangeJustification) => void;
+  onReinstate: (recordId: number, justification: ChangeJustification) => void;
+  onSessionStatusChange: (recordId: number, sessionNumber: number, status: SessionStatus) => void;
+  onRecordResult: (recordId: number, key: MeasurementKey, result: MeasurementInput) => void;
+  onRunSession: (sessionNumber: number) => void;
+  onScheduleSession: (recordId: number, sessionNumber: number, schedule: SessionSchedule) => void;
 }
 
+type RecordResult = (repetition: number, modelOrder: number, result: MeasurementInput) => void;
+
 function ChevronIcon({ isOpen }: { isOpen: boolean }) {
   return (
     <svg
@@ -48,18 +85,101 @@ function ModelTypeBadge({ modelType }: { modelType: string }) {
   );
 }
 
-function MeasurementTable({ block }: { block: ModelTypeBlock }) {
+function formatResult(result: MeasurementResult): string {
+  if (result.skipped) return 'skipped';
+  return [
+    result.rating !== undefined ? `R${result.rating}` : '',
+    result.identifiedModelId ? `→ ${result.identifiedModelId}` : '',
+    result.note ? '✎' : '',
+  ].filter(Boolean).join(' ');
+}
+
+function ResultEditor({ measurement, models, onSave, onCancel }: {
+  measurement: Measurement;
+  models: ModelDefinition[];
+  onSave: (result: MeasurementInput) => void;
+  onCancel: () => void;
+}) {
+  const [rating, setRating] = useState(measurement.result?.rating);
+  const [identifiedModelId, setIdentifiedModelId] = useState(measurement.result?.identifiedModelId ?? '');
+  const [note, setNote] = useState(measurement.result?.note ?? '');
+  const [skipped, setSkipped] = useState(measurement.result?.skipped ?? false);
+
+  return (
+    <div className="mt-2 p-3 border border-border rounded-lg bg-muted/30 space-y-2">
+      <p className="text-xs font-medium text-card-foreground">
+        Rep {measurement.repetition} · #{measurement.modelOrder} · {measurement.modelName}
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={rating ?? ''}
+          onChange={(e) => setRating(e.target.value ? Number(e.target.value) : undefined)}
+          disabled={skipped}
+          aria-label="Compressibility rating"
+          className="px-2 py-1 text-xs border border-input rounded bg-background text-foreground cursor-pointer"
+        >
+          <option value="">Rating…</option>
+          {COMPRESSIBILITY_RATINGS.map(r => (
+            <option key={r} value={r}>{r}</option>
+          ))}
+        </select>
+        <select
+          value={identifiedModelId}
+          onChange={(e) => setIdentifiedModelId(e.target.value)}
+          disabled={skipped}
+          aria-label="Identified model"
+          className="px-2 py-1 text-xs border border-input rounded bg-background text-foreground cursor-pointer"
+        >
+          <option value="">Identified model…</option>
+          {models.map(m => (
+            <option key={m.id} value={m.id}>{m.name} ({m.id})</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-xs text-muted-foreground cursor-pointer">
+          <input type="checkbox" checked={skipped} onChange={(e) => setSkipped(e.target.checked)} />
+          Skipped
+        </label>
+      </div>
+      <input
+        type="text"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note"
+        className="w-full px-2 py-1 text-xs border border-input rounded bg-background text-foreground"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onSave(skipped ? { skipped, note } : { rating, identifiedModelId, note })}
+          className="px-3 py-1 text-xs font-medium bg-primary text-primary-foreground hover:bg-primary/90 rounded transition-colors cursor-pointer"
+        >
+          Save
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 text-xs font-medium text-muted-foreground hover:bg-muted rounded transition-colors cursor-pointer"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function MeasurementTable({ block, onRecord }: { block: ModelTypeBlock; onRecord?: RecordResult }) {
+  const [selected, setSelected] = useState<Measurement | null>(null);
+
   // Group measurements by repetition to show the actual order per rep
-  const measurementsByRep: { [rep: number]: { modelId: string; modelName: string; color?: string }[] } = {};
+  const measurementsByRep: { [rep: number]: Measurement[] } = {};
   for (const m of block.measurements) {
     if (!measurementsByRep[m.repetition]) {
       measurementsByRep[m.repetition] = [];
     }
-    measurementsByRep[m.repetition].push({ modelId: m.modelId, modelName: m.modelName, color: m.color });
+    measurementsByRep[m.repetition].push(m);
   }
 
   const numModels = block.models.length;
   const isBallModel = block.modelType === 'ball';
+  const repetitions = Object.keys(measurementsByRep).map(Number).sort((a, b) => a - b);
 
   return (
     <div className="mt-2">
@@ -75,19 +195,32 @@ function MeasurementTable({ block }: { block: ModelTypeBlock }) {
           </tr>
         </thead>
         <tbody>
-          {[1, 2, 3, 4, 5].map(rep => {
+          {repetitions.map(rep => {
             const repMeasurements = measurementsByRep[rep] || [];
             return (
               <tr key={rep} className="border-b border-border/50">
                 <td className="py-1.5 px-2 font-medium text-card-foreground">{rep}</td>
                 {repMeasurements.map((m, idx) => (
                   <td key={idx} className="py-1.5 px-2 text-center">
-                    <span
-                      style={m.color ? { color: m.color, fontWeight: 600 } : undefined}
-                      className={!m.color ? 'text-muted-foreground' : ''}
+                    <button
+                      onClick={() => setSelected(m)}
+                      disabled={!onRecord}
+                      className={`px-1 rounded enabled:cursor-pointer enabled:hover:bg-muted ${
+                        selected?.repetition === m.repetition && selected?.modelOrder === m.modelOrder ? 'ring-1 ring-ring' : ''
+                      }`}
                     >
-                      {m.modelName}
-                    </span>
+                      <span
+                        style={m.color ? { color: m.color, fontWeight: 600 } : undefined}
+                        className={`${!m.color ? 'text-muted-foreground' : ''} ${m.result?.skipped ? 'line-through' : ''}`}
+                      >
+                        {m.modelName}
+                      </span>
+                      {m.result && (
+                        <span className="block text-[10px] text-muted-foreground" title={m.result.note}>
+                          {formatResult(m.result)}
+                        </span>
+                      )}
+                    </button>
                   </td>
                 ))}
               </tr>
@@ -98,16 +231,34 @@ function MeasurementTable({ block }: { block: ModelTypeBlock }) {
       <p className="mt-1 text-xs text-muted-foreground">
         Models: {block.models.map(m => m.id).join(', ')}
       </p>
+      {selected && onRecord && (
+        <ResultEditor
+          key={`${selected.repetition}-${selected.modelOrder}`}
+          measurement={selected}
+          models={block.models}
+          onSave={(result) => {
+            onRecord(selected.repetition, selected.modelOrder, result);
+            setSelected(null);
+          }}
+          onCancel={() => setSelected(null)}
+        />
+      )}
     </div>
   );
 }
 
-function ModalitySection({ modalityBlock, session }: { modalityBlock: ModalityBlock; session: Session }) {
+function ModalitySection({ modalityBlock, session, onRecord }: {
+  modalityBlock: ModalityBlock;
+  session: Session;
+  onRecord?: (modelType: ModelType) => RecordResult;
+}) {
   const [isOpen, setIsOpen] = useState(false);
 
   const orderedBlocks = session.modelTypeOrder[0] === 'ball'
     ? [modalityBlock.ballBlock, modalityBlock.balloonBlock]
     : [modalityBlock.balloonBlock, modalityBlock.ballBlock];
+  const modalityMeasurements = orderedBlocks.reduce((sum, block) => sum + block.measurements.length, 0);
+  const duration = getModalityBlockDuration(modalityBlock);
 
   return (
     <div className="border border-border rounded-lg overflow-hidden">
@@ -121,7 +272,8 @@ function ModalitySection({ modalityBlock, session }: { modalityBlock: ModalityBl
           </span>
           <ModalityBadge modality={modalityBlock.modality} />
           <span className="text-sm text-muted-foreground">
-            40 measurements
+            {modalityMeasurements} measurements
+            {duration !== undefined && ` · ${Math.round(duration)} min`}
           </span>
         </div>
         <ChevronIcon isOpen={isOpen} />
@@ -136,9 +288,9 @@ function ModalitySection({ modalityBlock, session }: { modalityBlock: ModalityBl
                   {idx + 1}
                 </span>
                 <ModelTypeBadge modelType={block.modelType} />
-                <span className="text-xs text-muted-foreground">20 measurements</span>
+                <span className="text-xs text-muted-foreground">{block.measurements.length} measurements</span>
               </div>
-              <MeasurementTable block={block} />
+              <MeasurementTable block={block} onRecord={onRecord?.(block.modelType)} />
             </div>
           ))}
         </div>
@@ -147,28 +299,123 @@ function ModalitySection({ modalityBlock, session }: { modalityBlock: ModalityBl
   );
 }
 
-function SessionSection({ session }: { session: Session }) {
+// ISO timestamp → value for a datetime-local input (local time, minutes precision)
+function toLocalInput(iso: string | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function ScheduleEditor({ participant, design, session, onSchedule }: {
+  participant: Participant;
+  design: StudyDesign;
+  session: Session;
+  onSchedule: (schedule: SessionSchedule) => void;
+}) {
+  const [plannedAt, setPlannedAt] = useState(toLocalInput(session.plannedAt));
+  const [operator, setOperator] = useState(session.operator ?? '');
+
+  const error = plannedAt ? getScheduleError(participant, design, session.sessionNumber, plannedAt) : null;
+  const isChanged = plannedAt !== toLocalInput(session.plannedAt) || operator !== (session.operator ?? '');
+
+  return (
+    <div className="pb-3 border-b border-border">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="datetime-local"
+          value={plannedAt}
+          onChange={(e) => setPlannedAt(e.target.value)}
+          aria-label="Planned date and time"
+          className={`px-2 py-1 text-xs border rounded bg-background text-foreground ${error ? 'border-destructive' : 'border-input'}`}
+        />
+        <input
+          type="text"
+          value={operator}
+          onChange={(e) => setOperator(e.target.value)}
+          placeholder="Operator"
+          className="px-2 py-1 text-xs border border-input rounded bg-background text-foreground"
+        />
+        <button
+          onClick={() => onSchedule({ plannedAt, operator })}
+          disabled={!!error || !isChanged}
+          className="px-3 py-1 text-xs font-medium rounded bg-primary text-primary-foreground enabled:hover:bg-primary/90 enabled:cursor-pointer disabled:opacity-50 transition-colors"
+        >
+          Save Schedule
+        </button>
+      </div>
+      {error && <p className="mt-1 text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+function SessionSection({ participant, design, session, onStatusChange, onRecordResult, onRun, onSchedule }: {
+  participant: Participant;
+  design: StudyDesign;
+  session: Session;
+  onStatusChange: (status: SessionStatus) => void;
+  onRecordResult: (key: MeasurementKey, result: MeasurementInput) => void;
+  onRun: () => void;
+  onSchedule: (schedule: SessionSchedule) => void;
+}) {
   const [isOpen, setIsOpen] = useState(false);
+  const status = getSessionStatus(participant, session);
+  const duration = getSessionDuration(session);
 
   return (
     <div className="border border-border rounded-lg overflow-hidden">
-      <button
-        onClick={() => setIsOpen(!isOpen)}
-        className="w-full px-4 py-3 flex items-center justify-between bg-secondary hover:bg-secondary/80 transition-colors cursor-pointer"
-      >
-        <div className="flex items-center gap-3">
-          <span className="text-sm font-semibold text-secondary-foreground">
-            Session {session.sessionNumber}
-          </span>
-          <span className="text-xs text-muted-foreground">
-            {session.totalMeasurements} measurements
-          </span>
-        </div>
-        <ChevronIcon isOpen={isOpen} />
-      </button>
+      <div className="flex items-center bg-secondary">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex-1 px-4 py-3 flex items-center justify-between hover:bg-secondary/80 transition-colors cursor-pointer"
+        >
+          <div className="flex items-center gap-3">
+            <span className="text-sm font-semibold text-secondary-foreground">
+              Session {session.sessionNumber}
+            </span>
+            <StatusBadge status={status} />
+            <span className="text-xs text-muted-foreground">
+              {session.totalMeasurements} measurements
+              {duration !== undefined && ` · ${Math.round(duration)} min`}
+              {session.plannedAt && ` · ${new Date(session.plannedAt).toLocaleString()}`}
+              {session.operator && ` · ${session.operator}`}
+            </span>
+          </div>
+          <ChevronIcon isOpen={isOpen} />
+        </button>
+        {status !== 'withdrawn' && (
+          <>
+            <button
+              onClick={onRun}
+              className="mr-2 px-2 py-1 text-xs font-medium text-primary hover:bg-primary/10 rounded transition-colors cursor-pointer"
+            >
+              {session.currentStep ? `Resume (${session.currentStep + 1}/${session.totalMeasurements})` : 'Run Session'}
+            </button>
+            <select
+              value={session.status ?? 'scheduled'}
+              onChange={(e) => onStatusChange(e.target.value as SessionStatus)}
+              aria-label={`Session ${session.sessionNumber} status`}
+              className="mr-3 px-2 py-1 text-xs border border-input rounded bg-background text-foreground cursor-pointer"
+            >
+              {SESSION_STATUSES.map(s => (
+                <option key={s} value={s}>{describeStatus(s)}</option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
 
       <div className={`accordion-content ${isOpen ? 'expanded' : 'collapsed'}`}>
         <div className="p-4 space-y-3 bg-card">
+          {status !== 'withdrawn' && (
+            <ScheduleEditor
+              key={`${session.plannedAt}-${session.operator}`}
+              participant={participant}
+              design={design}
+              session={session}
+              onSchedule={onSchedule}
+            />
+          )}
           <div className="flex flex-wrap gap-2 text-xs text-muted-foreground pb-3 border-b border-border">
             <span>Modality Order: <strong className="text-card-foreground">{session.modalityOrder.map(m => m === 'ultrasound' ? 'US' : 'Palp').join(' → ')}</strong></span>
             <span className="text-border">|</span>
@@ -180,6 +427,15 @@ function SessionSection({ session }: { session: Session }) {
               key={`${session.sessionNumber}-${modalityBlock.modality}`}
               modalityBlock={modalityBlock}
               session={session}
+              onRecord={status === 'withdrawn' ? undefined : (modelType) => (repetition, modelOrder, result) =>
+                onRecordResult({
+                  sessionNumber: session.sessionNumber,
+                  modality: modalityBlock.modality,
+                  modelType,
+                  repetition,
+                  modelOrder,
+                }, result)
+              }
             />
           ))}
         </div>
@@ -188,33 +444,57 @@ function SessionSection({ session }: { session: Session }) {
   );
 }
 
-export default function ParticipantCard({ participant, onRemove, onRegenerate }: ParticipantCardProps) {
+export default function ParticipantCard({
+  participant,
+  design,
+  onRemove,
+  onRegenerate,
+  onWithdraw,
+  onReinstate,
+  onSessionStatusChange,
+  onRecordResult,
+  onRunSession,
+  onScheduleSession,
+}: ParticipantCardProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [showConfirmRemove, setShowConfirmRemove] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<'remove' | 'regenerate' | 'withdraw' | 'reinstate' | null>(null);
+
+  const sessionCount = participant.sessions.length;
+  const totalMeasurements = participant.sessions.reduce((sum, s) => sum + s.totalMeasurements, 0);
+  const withdrawn = isWithdrawn(participant);
+  // Once a session has started, the record must be kept (withdraw instead)
+  // and its randomization can no longer be regenerated
+  const canDelete = !hasStartedSessions(participant);
+  const status = getParticipantStatus(participant);
+  const nextSession = getNextSession(participant);
 
-  const handleRemoveClick = (e: React.MouseEvent) => {
+  const handleActionClick = (action: 'remove' | 'regenerate' | 'withdraw' | 'reinstate') => (e: React.MouseEvent) => {
     e.stopPropagation();
-    setShowConfirmRemove(true);
+    setConfirmAction(action);
   };
 
-  const handleConfirmRemove = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    onRemove(participant.recordId);
-    setShowConfirmRemove(false);
+  const handleConfirmRemove = (justification: ChangeJustification) => {
+    onRemove(participant.recordId, justification);
+    setConfirmAction(null);
   };
 
-  const handleCancelRemove = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    setShowConfirmRemove(false);
+  const handleConfirmRegenerate = (justification: ChangeJustification) => {
+    onRegenerate(participant.recordId, justification);
+    setConfirmAction(null);
   };
 
-  const handleRegenerate = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    onRegenerate(participant.recordId);
+  const handleConfirmWithdraw = (justification: ChangeJustification) => {
+    onWithdraw(participant.recordId, justification);
+    setConfirmAction(null);
+  };
+
+  const handleConfirmReinstate = (justification: ChangeJustification) => {
+    onReinstate(participant.recordId, justification);
+    setConfirmAction(null);
   };
 
   return (
-    <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+    <div className={`bg-card rounded-lg shadow-sm border border-border overflow-hidden ${withdrawn ? 'opacity-60' : ''}`}>
       <div className="flex items-center">
         <button
           onClick={() => setIsOpen(!isOpen)}
@@ -227,17 +507,26 @@ export default function ParticipantCard({ participant, onRemove, onRegenerate }:
               </span>
             </div>
             <div className="text-left">
-              <h3 className="font-semibold text-card-foreground">
+              <h3 className="font-semibold text-card-foreground flex items-center gap-2">
                 Participant #{participant.recordId}
+                <StatusBadge status={status} title={participant.withdrawalReason} />
               </h3>
               <p className="text-xs text-muted-foreground">
                 Seed: {participant.randomSeed}
+                {participant.algorithmVersion !== undefined && ` · Algorithm v${participant.algorithmVersion}`}
+                {participant.allocationIndex !== undefined && ` · Slot ${participant.allocationIndex + 1}`}
               </p>
+              {participant.strata && (
+                <p className="text-xs text-muted-foreground">
+                  {Object.values(participant.strata).join(' · ')}
+                </p>
+              )}
             </div>
           </div>
           <div className="flex items-center gap-4">
             <span className="text-sm text-muted-foreground hidden sm:block">
-              3 sessions · 240 measurements
+              {nextSession && status !== 'scheduled' && `Next: Session ${nextSession.sessionNumber} · `}
+              {sessionCount} {sessionCount === 1 ? 'session' : 'sessions'} · {totalMeasurements} measurements
             </span>
             <ChevronIcon isOpen={isOpen} />
           </div>
@@ -245,43 +534,73 @@ export default function ParticipantCard({ participant, onRemove, onRegenerate }:
 
         {/* Action buttons */}
         <div className="flex items-center gap-1 pr-4">
-          {showConfirmRemove ? (
-            <div className="flex items-center gap-1 bg-destructive/10 rounded-lg p-1">
-              <button
-                onClick={handleConfirmRemove}
-                className="px-2 py-1 text-xs font-medium text-destructive hover:bg-destructive/20 rounded transition-colors cursor-pointer"
-                title="Confirm remove"
-              >
-                Remove
-              </button>
-              <button
-                onClick={handleCancelRemove}
-                className="px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-muted rounded transition-colors cursor-pointer"
-                title="Cancel"
-              >
-                Cancel
-              </button>
-            </div>
+          {confirmAction === 'remove' ? (
+            <ReasonPrompt
+              confirmLabel="Remove"
+              onConfirm={handleConfirmRemove}
+              onCancel={() => setConfirmAction(null)}
+            />
+          ) : confirmAction === 'regenerate' ? (
+            <ReasonPrompt
+              confirmLabel="Regenerate"
+              placeholder="Justification (required)"
+              onConfirm={handleConfirmRegenerate}
+              onCancel={() => setConfirmAction(null)}
+            />
+          ) : confirmAction === 'withdraw' ? (
+            <ReasonPrompt
+              confirmLabel="Withdraw"
+              placeholder="Withdrawal reason (required)"
+              onConfirm={handleConfirmWithdraw}
+              onCancel={() => setConfirmAction(null)}
+            />
+          ) : confirmAction === 'reinstate' ? (
+            <ReasonPrompt
+              confirmLabel="Reinstate"
+              onConfirm={handleConfirmReinstate}
+              onCancel={() => setConfirmAction(null)}
+            />
+          ) : withdrawn ? (
+            <button
+              onClick={handleActionClick('reinstate')}
+              className="px-2 py-1 text-xs font-medium text-muted-foreground hover:text-primary hover:bg-primary/10 rounded-lg transition-colors cursor-pointer"
+              title="Reinstate participant"
+            >
+              Reinstate
+            </button>
           ) : (
             <>
+              {canDelete && (
+                <button
+                  onClick={handleActionClick('regenerate')}
+                  className="p-2 text-muted-foreground hover:text-primary hover:bg-primary/10 rounded-lg transition-colors cursor-pointer"
+                  title="Regenerate randomization"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                </button>
+              )}
               <button
-                onClick={handleRegenerate}
-                className="p-2 text-muted-foreground hover:text-primary hover:bg-primary/10 rounded-lg transition-colors cursor-pointer"
-                title="Regenerate randomization"
-              >
-                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                </svg>
-              </button>
-              <button
-                onClick={handleRemoveClick}
+                onClick={handleActionClick('withdraw')}
                 className="p-2 text-muted-foreground hover:text-destructive hover:bg-destructive/10 rounded-lg transition-colors cursor-pointer"
-                title="Remove participant"
+                title="Withdraw participant"
               >
                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7a4 4 0 11-8 0 4 4 0 018 0zM9 14a6 6 0 00-6 6v1h12v-1a6 6 0 00-6-6zM21 12h-6" />
                 </svg>
               </button>
+              {canDelete && (
+                <button
+                  onClick={handleActionClick('remove')}
+                  className="p-2 text-muted-foreground hover:text-destructive hover:bg-destructive/10 rounded-lg transition-colors cursor-pointer"
+                  title="Remove participant (only before any session has started)"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              )}
             </>
           )}
         </div>
@@ -289,6 +608,14 @@ export default function ParticipantCard({ participant, onRemove, onRegenerate }:
 
       <div className={`accordion-content ${isOpen ? 'expanded' : 'collapsed'}`}>
         <div className="px-6 pb-6 space-y-3 border-t border-border pt-4">
+          {withdrawn && (
+            <p className="text-xs text-destructive bg-destructive/10 px-3 py-2 rounded-lg">
+              Withdrawn {new Date(participant.withdrawnAt!).toLocaleString()}
+              {participant.withdrawalReason && `: ${participant.withdrawalReason}`}.
+              The allocation is kept in the dataset but excluded from active counts.
+            </p>
+          )}
+
           <div className="grid grid-cols-2 gap-4 text-sm mb-4 p-3 bg-muted/50 rounded-lg">
             <div>
               <span className="text-muted-foreground">Ball Sphere Order:</span>
@@ -304,12 +631,23 @@ export default function ParticipantCard({ participant, onRemove, onRegenerate }:
             </div>
           </div>
 
-          <p className="text-xs text-accent-foreground bg-accent/30 px-3 py-2 rounded-lg">
-            Note: All 3 sessions are identical (randomized once, then copied)
-          </p>
+          {sessionCount > 1 && (
+            <p className="text-xs text-accent-foreground bg-accent/30 px-3 py-2 rounded-lg">
+              Note: All {sessionCount} sessions are identical (randomized once, then copied)
+            </p>
+          )}
 
           {participant.sessions.map(session => (
-            <SessionSection key={session.sessionNumber} session={session} />
+            <SessionSection
+              key={session.sessionNumber}
+              participant={participant}
+              design={design}
+              session={session}
+              onStatusChange={(newStatus) => onSessionStatusChange(participant.recordId, session.sessionNumber, newStatus)}
+              onRecordResult={(key, result) => onRecordResult(participant.recordId, key, result)}
+              onRun={() => onRunSession(session.sessionNumber)}
+              onSchedule={(schedule) => onScheduleSession(participant.recordId, session.sessionNumber, schedule)}
+            />
           ))}
         </div>
       </div>
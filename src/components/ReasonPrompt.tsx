@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+import { ChangeJustification, getAuditActor, setAuditActor } from '@/lib/audit';
+
+interface ReasonPromptProps {
+  confirmLabel: string;
+  placeholder?: string;
+  disabled?: boolean; // e.g. while a form above the prompt is incomplete
+  onConfirm: (justification: ChangeJustification) => void;
+  onCancel: () => void;
+}
+
+// Inline confirmation that asks who is making an audited change and why
+export default function ReasonPrompt({
+  confirmLabel,
+  placeholder = 'Reason (required)',
+  disabled = false,
+  onConfirm,
+  onCancel,
+}: ReasonPromptProps) {
+  const [actor, setActor] = useState(getAuditActor);
+  const [reason, setReason] = useState('');
+
+  const canConfirm = !disabled && actor.trim() !== '' && reason.trim() !== '';
+
+  const handleConfirm = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (canConfirm) {
+      setAuditActor(actor);
+      onConfirm({ actor, reason });
+    }
+  };
+
+  const handleCancel = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onCancel();
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 bg-destructive/10 rounded-lg p-1">
+      <input
+        type="text"
+        value={actor}
+        onChange={(e) => setActor(e.target.value)}
+        onClick={(e) => e.stopPropagation()}
+        placeholder="Your name"
+        aria-label="Your name"
+        className="w-28 px-2 py-1 text-xs border border-input rounded bg-background text-foreground"
+      />
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        onClick={(e) => e.stopPropagation()}
+        placeholder={placeholder}
+        aria-label="Reason"
+        className="w-44 px-2 py-1 text-xs border border-input rounded bg-background text-foreground"
+      />
+      <button
+        type="button"
+        onClick={handleConfirm}
+        disabled={!canConfirm}
+        className="px-2 py-1 text-xs font-medium text-destructive enabled:hover:bg-destructive/20 rounded transition-colors enabled:cursor-pointer disabled:opacity-50"
+      >
+        {confirmLabel}
+      </button>
+      <button
+        type="button"
+        onClick={handleCancel}
+        className="px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-muted rounded transition-colors cursor-pointer"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Participant,
+  Session,
+  StudyDesign,
+  MeasurementKey,
+  MeasurementInput,
+  COMPRESSIBILITY_RATINGS,
+  getModelTypeDefinition,
+  getSessionSteps,
+} from '@/lib/randomization';
+
+interface SessionRunnerProps {
+  participant: Participant;
+  design: StudyDesign;
+  session: Session;
+  onStepChange: (step: number) => void;
+  // Records the result and moves on to nextStep in a single update
+  onRecordResult: (key: MeasurementKey, result: MeasurementInput, nextStep: number) => void;
+  onComplete: () => void;
+  onClose: () => void;
+}
+
+export default function SessionRunner({
+  participant,
+  design,
+  session,
+  onStepChange,
+  onRecordResult,
+  onComplete,
+  onClose,
+}: SessionRunnerProps) {
+  const steps = getSessionSteps(session);
+  // The position is stored with the session so the run can be resumed
+  const stepIndex = Math.min(session.currentStep ?? 0, steps.length - 1);
+  const step = steps[stepIndex];
+  const isLast = stepIndex === steps.length - 1;
+  const progressPercent = Math.round(((stepIndex + 1) / steps.length) * 100);
+  // When the current measurement was shown, recorded as its start time
+  const [stepShownAt, setStepShownAt] = useState(() => new Date().toISOString());
+
+  const goBack = () => {
+    if (stepIndex > 0) {
+      setStepShownAt(new Date().toISOString());
+      onStepChange(stepIndex - 1);
+    }
+  };
+  const goNext = () => {
+    if (!isLast) {
+      setStepShownAt(new Date().toISOString());
+      onStepChange(stepIndex + 1);
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') goNext();
+      if (e.key === 'ArrowLeft') goBack();
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!step) return null;
+
+  const { measurement } = step;
+  const key: MeasurementKey = {
+    sessionNumber: session.sessionNumber,
+    modality: step.modality,
+    modelType: step.modelType,
+    repetition: measurement.repetition,
+    modelOrder: measurement.modelOrder,
+  };
+
+  const recordAndAdvance = (result: MeasurementInput) => {
+    onRecordResult(key, { ...measurement.result, ...result, startedAt: stepShownAt }, isLast ? stepIndex : stepIndex + 1);
+    setStepShownAt(new Date().toISOString());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-background">
+      <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">
+            Participant #{participant.recordId} · Session {session.sessionNumber}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Measurement {stepIndex + 1} of {steps.length}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 text-sm font-medium text-muted-foreground hover:bg-muted rounded-lg transition-colors cursor-pointer"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="h-2 bg-muted">
+        <div className="h-full bg-primary transition-all" style={{ width: `${progressPercent}%` }} />
+      </div>
+
+      <div className="flex-1 flex flex-col items-center justify-center gap-6 p-6 text-center">
+        <div className="flex items-center gap-3 text-sm">
+          <span className={`px-3 py-1 font-medium rounded ${
+            step.modality === 'ultrasound' ? 'bg-chart-1/20 text-chart-1' : 'bg-chart-3/20 text-chart-3'
+          }`}>
+            {design.modalities.find(m => m.id === step.modality)?.label ?? step.modality}
+          </span>
+          <span className={`px-3 py-1 font-medium rounded ${
+            step.modelType === 'ball' ? 'bg-chart-2/20 text-chart-2' : 'bg-chart-4/20 text-chart-4'
+          }`}>
+            {getModelTypeDefinition(design, step.modelType).label}
+          </span>
+          <span className="text-muted-foreground">
+            Repetition {measurement.repetition} · #{measurement.modelOrder}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-4">
+          {measurement.color && (
+            <span
+              className="w-16 h-16 rounded-full border border-border shadow-sm"
+              style={{ backgroundColor: measurement.color }}
+            />
+          )}
+          <div>
+            <p className="text-6xl font-bold text-foreground">{measurement.modelName}</p>
+            <p className="text-lg font-mono text-muted-foreground">{measurement.modelId}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-col items-center gap-2">
+          <span className="text-xs text-muted-foreground">Compressibility rating</span>
+          <div className="flex items-center gap-2">
+            {COMPRESSIBILITY_RATINGS.map(rating => (
+              <button
+                key={rating}
+                onClick={() => recordAndAdvance({ rating, skipped: false })}
+                className={`w-12 h-12 text-lg font-semibold rounded-lg border transition-colors cursor-pointer ${
+                  measurement.result?.rating === rating
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : 'border-border text-foreground hover:bg-muted'
+                }`}
+              >
+                {rating}
+              </button>
+            ))}
+            <button
+              onClick={() => recordAndAdvance({ rating: undefined, skipped: true })}
+              className={`h-12 px-4 text-sm font-medium rounded-lg border transition-colors cursor-pointer ${
+                measurement.result?.skipped
+                  ? 'bg-destructive/10 text-destructive border-destructive/20'
+                  : 'border-border text-muted-foreground hover:bg-muted'
+              }`}
+            >
+              Skip
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="px-6 py-4 border-t border-border flex items-center justify-between">
+        <button
+          onClick={goBack}
+          disabled={stepIndex === 0}
+          className="px-6 py-3 text-sm font-medium rounded-lg border border-border text-foreground enabled:hover:bg-muted enabled:cursor-pointer disabled:opacity-50 transition-colors"
+        >
+          ← Back
+        </button>
+        {isLast ? (
+          <button
+            onClick={onComplete}
+            className="px-6 py-3 text-sm font-medium rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors cursor-pointer"
+          >
+            Complete Session
+          </button>
+        ) : (
+          <button
+            onClick={goNext}
+            className="px-6 py-3 text-sm font-medium rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors cursor-pointer"
+          >
+            Next →
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import { ParticipantStatus, describeStatus } from '@/lib/randomization';
+
+export const STATUS_COLORS: Record<ParticipantStatus, string> = {
+  scheduled: 'bg-muted text-muted-foreground',
+  in_progress: 'bg-chart-1/20 text-chart-1',
+  completed: 'bg-chart-2/20 text-chart-2',
+  missed: 'bg-chart-5/20 text-chart-5',
+  withdrawn: 'bg-destructive/10 text-destructive',
+};
+
+export default function StatusBadge({ status, title }: { status: ParticipantStatus; title?: string }) {
+  return (
+    <span className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_COLORS[status]}`} title={title}>
+      {describeStatus(status)}
+    </span>
+  );
+}
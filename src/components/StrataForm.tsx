@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { Strata, StratificationFactor } from '@/lib/randomization';
+import { ChangeJustification } from '@/lib/audit';
+import ReasonPrompt from '@/components/ReasonPrompt';
+
+interface StrataFormProps {
+  factors: StratificationFactor[];
+  onSubmit: (strata: Strata, justification: ChangeJustification) => void;
+  onCancel: () => void;
+}
+
+export default function StrataForm({ factors, onSubmit, onCancel }: StrataFormProps) {
+  const [strata, setStrata] = useState<Strata>({});
+
+  const isComplete = factors.every(f => f.levels.includes(strata[f.id]));
+
+  return (
+    <div className="mb-6 p-4 border border-border rounded-lg bg-muted/30">
+      <h3 className="text-sm font-semibold text-card-foreground mb-3">
+        Enroll Participant
+      </h3>
+
+      {factors.length > 0 && (
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        {factors.map(factor => (
+          <div key={factor.id}>
+            <label htmlFor={`stratum-${factor.id}`} className="block text-xs font-medium text-muted-foreground mb-1">
+              {factor.label}
+            </label>
+            <select
+              id={`stratum-${factor.id}`}
+              value={strata[factor.id] ?? ''}
+              onChange={(e) => setStrata({ ...strata, [factor.id]: e.target.value })}
+              className="w-full px-3 py-2 border border-input rounded-lg bg-background text-foreground text-sm focus:ring-2 focus:ring-ring focus:border-transparent transition-all cursor-pointer"
+            >
+              <option value="" disabled>Select…</option>
+              {factor.levels.map(level => (
+                <option key={level} value={level}>{level}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      )}
+
+      <div className="flex items-center">
+        <ReasonPrompt
+          confirmLabel="Enroll"
+          disabled={!isComplete}
+          onConfirm={(justification) => onSubmit(strata, justification)}
+          onCancel={onCancel}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useState } from 'react';
+import { StudyDesign, ModelType, ModelDefinition, isHexColor } from '@/lib/randomization';
+
+interface StudyDesignEditorProps {
+  design: StudyDesign;
+  onChange: (design: StudyDesign) => void;
+}
+
+function NumberField({ id, label, min = 1, value, onChange }: {
+  id: string;
+  label: string;
+  min?: number;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-xs font-medium text-muted-foreground mb-1">
+        {label}
+      </label>
+      <input
+        type="number"
+        id={id}
+        min={min}
+        value={Number.isNaN(value) ? '' : value}
+        onChange={(e) => onChange(parseInt(e.target.value, 10))}
+        className="w-full px-3 py-2 border border-input rounded-lg bg-background text-foreground text-sm focus:ring-2 focus:ring-ring focus:border-transparent transition-all"
+      />
+    </div>
+  );
+}
+
+export default function StudyDesignEditor({ design, onChange }: StudyDesignEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const updateModels = (modelType: ModelType, update: (models: ModelDefinition[]) => ModelDefinition[]) => {
+    onChange({
+      ...design,
+      modelTypes: design.modelTypes.map(t =>
+        t.id === modelType ? { ...t, models: update(t.models) } : t
+      ),
+    });
+  };
+
+  const updateModel = (modelType: ModelType, index: number, field: keyof ModelDefinition, value: string) => {
+    updateModels(modelType, models => models.map((m, i) => {
+      if (i !== index) return m;
+      const updated = { ...m, [field]: value };
+      // Drop empty colors instead of storing undefined (Firebase doesn't accept undefined)
+      if (field === 'color' && !value) {
+        delete updated.color;
+      }
+      return updated;
+    }));
+  };
+
+  const addModel = (modelType: ModelType) => {
+    updateModels(modelType, models => {
+      const prefix = modelType === 'ball' ? 'S' : 'B';
+      return [...models, { id: `${prefix}${models.length + 1}`, name: `Model ${models.length + 1}` }];
+    });
+  };
+
+  const removeModel = (modelType: ModelType, index: number) => {
+    updateModels(modelType, models => models.filter((_, i) => i !== index));
+  };
+
+  const modalitySummary = design.modalities.map(m => m.label).join(' & ');
+  const modelSummary = design.modelTypes.map(t => `${t.models.length} ${t.label.toLowerCase()}`).join(', ');
+
+  return (
+    <div className="border border-border rounded-lg overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between bg-muted/50 hover:bg-muted transition-colors cursor-pointer"
+      >
+        <div className="text-left">
+          <span className="text-sm font-medium text-card-foreground">Study Design</span>
+          <p className="text-xs text-muted-foreground">
+            {design.sessionsPerParticipant} sessions · {modalitySummary} · {modelSummary} · {design.repetitions} repetitions
+          </p>
+        </div>
+        <svg
+          className={`w-5 h-5 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      <div className={`accordion-content ${isOpen ? 'expanded' : 'collapsed'}`}>
+        <div className="p-4 space-y-4 bg-card">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <NumberField
+              id="design-sessions"
+              label="Sessions per Participant"
+              value={design.sessionsPerParticipant}
+              onChange={(value) => onChange({ ...design, sessionsPerParticipant: value })}
+            />
+            <NumberField
+              id="design-repetitions"
+              label="Repetitions per Model"
+              value={design.repetitions}
+              onChange={(value) => onChange({ ...design, repetitions: value })}
+            />
+            <NumberField
+              id="design-minutes"
+              label="Minutes per Session"
+              value={design.minutesPerSession}
+              onChange={(value) => onChange({ ...design, minutesPerSession: value })}
+            />
+            <NumberField
+              id="design-min-days"
+              label="Min. Days Between Sessions"
+              min={0}
+              value={design.minDaysBetweenSessions ?? 0}
+              onChange={(value) => onChange({ ...design, minDaysBetweenSessions: value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {design.modelTypes.map(modelType => (
+              <div key={modelType.id} className="border border-border/50 rounded-lg p-3">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-card-foreground">{modelType.label}</span>
+                  <button
+                    type="button"
+                    onClick={() => addModel(modelType.id)}
+                    className="px-2 py-1 text-xs font-medium text-primary hover:bg-primary/10 rounded transition-colors cursor-pointer"
+                  >
+                    + Add Model
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {modelType.models.map((model, idx) => (
+                    <div key={idx} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={model.id}
+                        onChange={(e) => updateModel(modelType.id, idx, 'id', e.target.value)}
+                        aria-label="Model ID"
+                        className="w-16 px-2 py-1 border border-input rounded bg-background text-foreground text-xs font-mono"
+                      />
+                      <input
+                        type="text"
+                        value={model.name}
+                        onChange={(e) => updateModel(modelType.id, idx, 'name', e.target.value)}
+                        aria-label="Model name"
+                        className="flex-1 min-w-0 px-2 py-1 border border-input rounded bg-background text-foreground text-xs"
+                      />
+                      <span
+                        className="w-4 h-4 rounded-full border border-border shrink-0"
+                        style={model.color ? { backgroundColor: model.color } : undefined}
+                      />
+                      <input
+                        type="text"
+                        value={model.color ?? ''}
+                        onChange={(e) => updateModel(modelType.id, idx, 'color', e.target.value)}
+                        placeholder="#RRGGBB"
+                        aria-label="Model color"
+                        className={`w-20 px-2 py-1 border rounded bg-background text-foreground text-xs font-mono ${
+                          model.color === undefined || isHexColor(model.color) ? 'border-input' : 'border-destructive'
+                        }`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeModel(modelType.id, idx)}
+                        className="p-1 text-muted-foreground hover:text-destructive rounded transition-colors cursor-pointer"
+                        title="Remove model"
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
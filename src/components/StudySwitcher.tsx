@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { StudyInfo } from '@/lib/studies';
+
+interface StudySwitcherProps {
+  studies: StudyInfo[];
+  currentStudyId: string;
+  onSwitch: (studyId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (studyId: string, name: string) => void;
+  onArchive: (studyId: string, archived: boolean) => void;
+}
+
+function StudyRow({ study, isCurrent, onRename, onArchive }: {
+  study: StudyInfo;
+  isCurrent: boolean;
+  onRename: (name: string) => void;
+  onArchive: (archived: boolean) => void;
+}) {
+  const [name, setName] = useState(study.name);
+  const isChanged = name.trim() !== '' && name.trim() !== study.name;
+
+  return (
+    <li className="flex items-center gap-2 py-1.5">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        aria-label="Study name"
+        className={`flex-1 min-w-0 px-2 py-1 text-xs border border-input rounded bg-background ${
+          study.archivedAt ? 'text-muted-foreground' : 'text-foreground'
+        }`}
+      />
+      {isChanged && (
+        <button
+          onClick={() => onRename(name)}
+          className="px-2 py-1 text-xs font-medium text-primary hover:bg-primary/10 rounded transition-colors cursor-pointer"
+        >
+          Rename
+        </button>
+      )}
+      <button
+        onClick={() => onArchive(!study.archivedAt)}
+        disabled={isCurrent}
+        title={isCurrent ? 'Switch to another study before archiving this one' : undefined}
+        className="px-2 py-1 text-xs font-medium text-muted-foreground enabled:hover:bg-muted rounded transition-colors enabled:cursor-pointer disabled:opacity-50"
+      >
+        {study.archivedAt ? 'Unarchive' : 'Archive'}
+      </button>
+    </li>
+  );
+}
+
+export default function StudySwitcher({
+  studies,
+  currentStudyId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onArchive,
+}: StudySwitcherProps) {
+  const [isManaging, setIsManaging] = useState(false);
+  const [newStudyName, setNewStudyName] = useState('');
+
+  // Archived studies are hidden from the switcher unless one is open
+  const selectable = studies.filter(s => !s.archivedAt || s.id === currentStudyId);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newStudyName.trim()) {
+      onCreate(newStudyName);
+      setNewStudyName('');
+      setIsManaging(false);
+    }
+  };
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <select
+        value={currentStudyId}
+        onChange={(e) => onSwitch(e.target.value)}
+        aria-label="Current study"
+        className="px-3 py-2 border border-input rounded-lg bg-background text-foreground text-sm cursor-pointer max-w-48"
+      >
+        {selectable.map(study => (
+          <option key={study.id} value={study.id}>
+            {study.name}{study.archivedAt ? ' (archived)' : ''}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => setIsManaging(!isManaging)}
+        className="p-2 text-muted-foreground hover:bg-muted rounded-lg transition-colors cursor-pointer"
+        title="Manage studies"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+        </svg>
+      </button>
+
+      {isManaging && (
+        <div className="absolute right-0 top-full mt-2 w-80 p-4 bg-card border border-border rounded-lg shadow-lg z-50">
+          <h3 className="text-sm font-semibold text-card-foreground mb-2">Studies</h3>
+          <ul className="mb-3 max-h-64 overflow-y-auto divide-y divide-border/50">
+            {studies.map(study => (
+              <StudyRow
+                key={`${study.id}-${study.name}`}
+                study={study}
+                isCurrent={study.id === currentStudyId}
+                onRename={(name) => onRename(study.id, name)}
+                onArchive={(archived) => onArchive(study.id, archived)}
+              />
+            ))}
+          </ul>
+          <form onSubmit={handleCreate} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newStudyName}
+              onChange={(e) => setNewStudyName(e.target.value)}
+              placeholder="New study name"
+              className="flex-1 min-w-0 px-2 py-1 text-xs border border-input rounded bg-background text-foreground"
+            />
+            <button
+              type="submit"
+              disabled={!newStudyName.trim()}
+              className="px-3 py-1 text-xs font-medium rounded bg-primary text-primary-foreground enabled:hover:bg-primary/90 enabled:cursor-pointer disabled:opacity-50 transition-colors"
+            >
+              Create
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,25 @@
 'use client';
 
-import { ExperimentData } from '@/lib/randomization';
+import {
+  ExperimentData,
+  ParticipantStatus,
+  describeAllocationMethod,
+  describeStatus,
+  getAllocationArms,
+  getStratumBalance,
+  getStudyProgress,
+  getLabTimeStats,
+} from '@/lib/randomization';
+import StatusBadge from '@/components/StatusBadge';
+
+const PROGRESS_STATUSES: ParticipantStatus[] = ['scheduled', 'in_progress', 'completed', 'missed', 'withdrawn'];
 
 interface SummaryStatsProps {
   data: ExperimentData;
 }
 
-const MINUTES_PER_SESSION = 30;
-const SESSIONS_PER_PARTICIPANT = 3;
-
-function formatTime(minutes: number): string {
+function formatTime(totalMinutes: number): string {
+  const minutes = Math.round(totalMinutes);
   const hours = Math.floor(minutes / 60);
   const mins = minutes % 60;
   if (hours === 0) return `${mins}m`;
@@ -18,14 +28,24 @@ function formatTime(minutes: number): string {
 }
 
 export default function SummaryStats({ data }: SummaryStatsProps) {
-  const { summary } = data;
+  const { summary, design } = data;
 
-  const totalLabTime = summary.totalParticipants * SESSIONS_PER_PARTICIPANT * MINUTES_PER_SESSION;
+  // Summaries stored before withdrawal existed count every participant as active
+  const activeParticipants = summary.activeParticipants ?? summary.totalParticipants;
+  const withdrawnParticipants = summary.withdrawnParticipants ?? 0;
+  const totalLabTime = activeParticipants * design.sessionsPerParticipant * design.minutesPerSession;
+  const progress = getStudyProgress(data);
+  const progressPercent = progress.plannedSessions > 0
+    ? Math.round((progress.completedSessions / progress.plannedSessions) * 100)
+    : 0;
+  const labTime = getLabTimeStats(data);
+  const stratumBalance = getStratumBalance(data);
+  const unassigned = stratumBalance.flatMap(b => b.unassigned);
 
   const stats = [
     {
-      label: 'Total Participants',
-      value: summary.totalParticipants,
+      label: 'Active Participants',
+      value: activeParticipants,
       icon: (
         <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
           <path d="M9 6a3 3 0 11-6 0 3 3 0 016 0zM17 6a3 3 0 11-6 0 3 3 0 016 0zM12.93 17c.046-.327.07-.66.07-1a6.97 6.97 0 00-1.5-4.33A5 5 0 0119 16v1h-6.07zM6 11a5 5 0 015 5v1H1v-1a5 5 0 015-5z" />
@@ -33,6 +53,16 @@ export default function SummaryStats({ data }: SummaryStatsProps) {
       ),
       color: 'bg-chart-1/10 text-chart-1',
     },
+    {
+      label: 'Withdrawn',
+      value: withdrawnParticipants,
+      icon: (
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+          <path d="M11 6a3 3 0 11-6 0 3 3 0 016 0zM14 17a6 6 0 00-12 0h12zM13 8a1 1 0 100 2h4a1 1 0 100-2h-4z" />
+        </svg>
+      ),
+      color: 'bg-destructive/10 text-destructive',
+    },
     {
       label: 'Per Session',
       value: summary.measurementsPerSession,
@@ -81,12 +111,20 @@ export default function SummaryStats({ data }: SummaryStatsProps) {
         <h2 className="text-lg font-semibold text-card-foreground">
           Experiment Summary
         </h2>
-        <span className="text-xs text-muted-foreground">
-          Generated: {new Date(data.generatedAt).toLocaleString()}
-        </span>
+        <div className="flex flex-col items-end text-xs text-muted-foreground">
+          <span>Generated: {new Date(data.generatedAt).toLocaleString()}</span>
+          <span>
+            Allocation: {describeAllocationMethod(data.allocationMethod)}
+          </span>
+          {data.masterSeed !== undefined && (
+            <span>
+              Master Seed: <span className="font-mono text-card-foreground">{data.masterSeed}</span>
+            </span>
+          )}
+        </div>
       </div>
 
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
         {stats.map((stat) => (
           <div
             key={stat.label}
@@ -104,6 +142,141 @@ export default function SummaryStats({ data }: SummaryStatsProps) {
           </div>
         ))}
       </div>
+
+      {data.participants.length > 0 && (
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-card-foreground">Study Progress</h3>
+            <span className="text-xs text-muted-foreground">
+              {progress.completedSessions} / {progress.plannedSessions} sessions completed ({progressPercent}%)
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-muted overflow-hidden mb-3">
+            <div className="h-full bg-chart-2 transition-all" style={{ width: `${progressPercent}%` }} />
+          </div>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {PROGRESS_STATUSES.map(status => (
+              <span key={status} className="flex items-center gap-1 text-xs text-muted-foreground">
+                <StatusBadge status={status} />
+                {progress.participantsByStatus[status]}
+              </span>
+            ))}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="py-1.5 px-2 text-left font-medium text-muted-foreground">Session</th>
+                  {PROGRESS_STATUSES.map(status => (
+                    <th key={status} className="py-1.5 px-2 text-center font-medium text-muted-foreground">
+                      {describeStatus(status)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {progress.bySessionNumber.map(row => (
+                  <tr key={row.sessionNumber} className="border-b border-border/50">
+                    <td className="py-1.5 px-2 text-card-foreground">Session {row.sessionNumber}</td>
+                    {PROGRESS_STATUSES.map(status => (
+                      <td key={status} className="py-1.5 px-2 text-center text-card-foreground">
+                        {row.statuses[status]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {data.participants.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-card-foreground mb-2">
+            Lab Time: Planned vs. Actual
+            <span className="ml-2 text-xs font-normal text-muted-foreground">
+              {labTime.timedSessions} timed {labTime.timedSessions === 1 ? 'session' : 'sessions'}
+            </span>
+          </h3>
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="py-1.5 px-2 text-left font-medium text-muted-foreground"></th>
+                <th className="py-1.5 px-2 text-center font-medium text-muted-foreground">Planned</th>
+                <th className="py-1.5 px-2 text-center font-medium text-muted-foreground">Actual</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-border/50">
+                <td className="py-1.5 px-2 text-card-foreground">Per session</td>
+                <td className="py-1.5 px-2 text-center text-card-foreground">{formatTime(labTime.plannedMinutesPerSession)}</td>
+                <td className="py-1.5 px-2 text-center text-card-foreground">
+                  {labTime.averageSessionMinutes !== undefined ? `${formatTime(labTime.averageSessionMinutes)} avg` : '—'}
+                </td>
+              </tr>
+              {labTime.averageModalityMinutes.map(m => (
+                <tr key={m.modality} className="border-b border-border/50">
+                  <td className="py-1.5 px-2 text-card-foreground">{m.label} block</td>
+                  <td className="py-1.5 px-2 text-center text-muted-foreground">—</td>
+                  <td className="py-1.5 px-2 text-center text-card-foreground">
+                    {m.minutes !== undefined ? `${formatTime(m.minutes)} avg (${m.blocks})` : '—'}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-b border-border/50">
+                <td className="py-1.5 px-2 text-card-foreground">
+                  Remaining ({labTime.remainingSessions} {labTime.remainingSessions === 1 ? 'session' : 'sessions'})
+                </td>
+                <td className="py-1.5 px-2 text-center text-card-foreground">{formatTime(labTime.plannedRemainingMinutes)}</td>
+                <td className="py-1.5 px-2 text-center text-card-foreground">
+                  {labTime.averageSessionMinutes !== undefined ? `${formatTime(labTime.projectedRemainingMinutes)} projected` : '—'}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {data.stratification && data.participants.length > 0 && (
+        <div className="mt-6 overflow-x-auto">
+          <h3 className="text-sm font-semibold text-card-foreground mb-2">
+            Stratum Balance
+            <span className="ml-2 text-xs font-normal text-muted-foreground">
+              block size {data.stratification.blockSize}
+            </span>
+          </h3>
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="py-1.5 px-2 text-left font-medium text-muted-foreground">Stratum</th>
+                <th className="py-1.5 px-2 text-center font-medium text-muted-foreground">Participants</th>
+                {getAllocationArms(data.design).map(arm => (
+                  <th key={`${arm.modalityFirst}-${arm.modelTypeFirst}`} className="py-1.5 px-2 text-center font-medium text-muted-foreground capitalize">
+                    {arm.modalityFirst} / {arm.modelTypeFirst} first
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {stratumBalance.map(balance => (
+                <tr key={balance.stratum} className="border-b border-border/50">
+                  <td className="py-1.5 px-2 text-card-foreground">{balance.stratum}</td>
+                  <td className="py-1.5 px-2 text-center text-card-foreground">{balance.participants}</td>
+                  {balance.armCounts.map((count, idx) => (
+                    <td key={idx} className="py-1.5 px-2 text-center text-card-foreground">{count}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {unassigned.length > 0 && (
+            <p className="mt-2 text-xs text-destructive">
+              Not in any arm: {unassigned.map(id => `#${id}`).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,39 @@
+'use client';
+
+import { SyncConflict, ConflictSide, describeConflict } from '@/lib/sync';
+
+interface SyncConflictPanelProps {
+  conflicts: SyncConflict[];
+  onResolve: (prefer: ConflictSide) => void;
+}
+
+// Shown when changes from another device collide with edits made here
+export default function SyncConflictPanel({ conflicts, onResolve }: SyncConflictPanelProps) {
+  return (
+    <div className="mb-6 p-4 border border-destructive/20 rounded-lg bg-destructive/10">
+      <h3 className="text-sm font-semibold text-destructive">Conflicting changes from another device</h3>
+      <p className="text-xs text-muted-foreground mb-3">
+        Your edits are not saved until you choose which version to keep. Other changes are merged either way.
+      </p>
+      <ul className="mb-3 space-y-0.5 text-sm text-card-foreground">
+        {conflicts.map((conflict, idx) => (
+          <li key={idx}>{describeConflict(conflict)}</li>
+        ))}
+      </ul>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onResolve('local')}
+          className="px-4 py-2 rounded-lg font-medium text-sm bg-primary hover:bg-primary/90 text-primary-foreground transition-colors cursor-pointer"
+        >
+          Keep My Changes
+        </button>
+        <button
+          onClick={() => onResolve('remote')}
+          className="px-4 py-2 rounded-lg font-medium text-sm bg-secondary hover:bg-secondary/80 text-secondary-foreground transition-colors cursor-pointer"
+        >
+          Use Their Changes
+        </button>
+      </div>
+    </div>
+  );
+}
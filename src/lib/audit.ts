@@ -0,0 +1,178 @@
+/**
+ * Audit Trail
+ *
+ * Append-only log of changes to a study's allocations, kept for the ethics
+ * committee. Entries are added to experiments/{studyId}/audit and are never
+ * updated or deleted by the app; localStorage keeps a backup copy. Entries
+ * are queued on this device together with the change they record, and only
+ * written once the database has that change, so the log never records a
+ * change that was lost to a sync conflict.
+ */
+
+import {
+  QueuedAuditEntry,
+  loadQueuedAuditEntries,
+  queueAuditEntry,
+  removeQueuedAuditEntries,
+  removeQueuedAuditEntry,
+} from './offline';
+import { escapeCSV, getStudyPath } from './randomization';
+import { getStorage, withTimeout } from './storage';
+
+export type AuditAction = 'generate' | 'add' | 'remove' | 'withdraw' | 'reinstate' | 'regenerate' | 'restore' | 'reset' | 'import';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  generate: 'Generate study',
+  add: 'Add participant',
+  remove: 'Remove participant',
+  withdraw: 'Withdraw participant',
+  reinstate: 'Reinstate participant',
+  regenerate: 'Regenerate participant',
+  restore: 'Restore version',
+  reset: 'Reset study',
+  import: 'Import data',
+};
+
+// Who made a change and why; required for every audited change
+export interface ChangeJustification {
+  actor: string;
+  reason: string;
+}
+
+export interface AuditEntry extends ChangeJustification {
+  timestamp: string;
+  action: AuditAction;
+  recordId?: number;
+  oldSeed?: number;
+  newSeed?: number;
+}
+
+const AUDIT_KEY = 'compressibility-audit-log';
+const ACTOR_KEY = 'compressibility-audit-actor';
+
+function auditCollection(studyId: string): string {
+  return `${getStudyPath(studyId)}/audit`;
+}
+
+function loadLocalAuditLog(studyId: string): AuditEntry[] {
+  if (typeof window !== 'undefined') {
+    const stored = localStorage.getItem(`${AUDIT_KEY}:${studyId}`);
+    if (stored) {
+      try {
+        return JSON.parse(stored);
+      } catch {
+        return [];
+      }
+    }
+  }
+  return [];
+}
+
+// Entries get their document ID here, so writing one again after a failed
+// attempt doesn't add it twice
+function createEntryId(timestamp: string): string {
+  return `${Date.parse(timestamp)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+async function writeAuditEntry(studyId: string, id: string, entry: AuditEntry): Promise<void> {
+  await withTimeout(getStorage().set(`${auditCollection(studyId)}/${id}`, entry), 'Database save timeout after 10s');
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(`${AUDIT_KEY}:${studyId}`, JSON.stringify([...loadLocalAuditLog(studyId), entry]));
+  }
+  await removeQueuedAuditEntry(id);
+}
+
+// Check a justification before a change is made
+export function validateJustification(justification: ChangeJustification): void {
+  if (!justification.actor.trim()) {
+    throw new Error('Enter your name before making this change');
+  }
+  if (!justification.reason.trim()) {
+    throw new Error('A reason is required for this change');
+  }
+}
+
+// Create an entry for a change, to be queued with it (see queueChange).
+// Optional fields are left out when missing (Firebase doesn't accept
+// undefined values).
+export function createAuditEntry(
+  studyId: string,
+  action: AuditAction,
+  justification: ChangeJustification,
+  details: { recordId?: number; oldSeed?: number; newSeed?: number } = {}
+): QueuedAuditEntry {
+  validateJustification(justification);
+  const entry: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    actor: justification.actor.trim(),
+    action,
+    reason: justification.reason.trim(),
+  };
+  if (details.recordId !== undefined) entry.recordId = details.recordId;
+  if (details.oldSeed !== undefined) entry.oldSeed = details.oldSeed;
+  if (details.newSeed !== undefined) entry.newSeed = details.newSeed;
+  return { id: createEntryId(entry.timestamp), studyId, entry };
+}
+
+// Append the entry of a change the database already has. If the write fails
+// the entry stays queued for pushQueuedAuditEntries.
+export async function appendAuditEntry({ id, studyId, entry }: QueuedAuditEntry): Promise<void> {
+  await queueAuditEntry(studyId, id, entry)
+    .catch(error => console.error('Error queueing audit entry:', error));
+  await writeAuditEntry(studyId, id, entry);
+}
+
+// Write the study's queued entries, oldest first, once its changes are
+// saved. Throws if one can't be written; it and the ones after it stay
+// queued.
+export async function pushQueuedAuditEntries(studyId: string): Promise<void> {
+  for (const { id, entry } of await loadQueuedAuditEntries(studyId)) {
+    await writeAuditEntry(studyId, id, entry);
+  }
+}
+
+// Drop the queued entries of changes that were discarded in favour of
+// another device's version: those of the given participants, or all of them
+// (null) when the whole study was replaced
+export async function discardQueuedAuditEntries(studyId: string, recordIds: number[] | null): Promise<void> {
+  await removeQueuedAuditEntries(studyId, entry =>
+    recordIds === null || (entry.recordId !== undefined && recordIds.includes(entry.recordId))
+  );
+}
+
+// Oldest first; falls back to the local copy when the database is unreachable
+export async function loadAuditLog(studyId: string): Promise<AuditEntry[]> {
+  try {
+    return await getStorage().list<AuditEntry>(auditCollection(studyId), { orderBy: 'timestamp', direction: 'asc' });
+  } catch {
+    return loadLocalAuditLog(studyId);
+  }
+}
+
+export function auditLogToCSV(entries: AuditEntry[]): string {
+  const headers = ['Timestamp', 'Actor', 'Action', 'Participant ID', 'Old Seed', 'New Seed', 'Reason'];
+  const rows = entries.map(e => [
+    e.timestamp,
+    e.actor,
+    AUDIT_ACTION_LABELS[e.action] ?? e.action,
+    e.recordId,
+    e.oldSeed,
+    e.newSeed,
+    e.reason,
+  ].map(escapeCSV).join(','));
+  return [headers.join(','), ...rows].join('\n');
+}
+
+// Name of the person using this device, remembered between changes
+export function getAuditActor(): string {
+  if (typeof window !== 'undefined') {
+    return localStorage.getItem(ACTOR_KEY) ?? '';
+  }
+  return '';
+}
+
+export function setAuditActor(actor: string): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(ACTOR_KEY, actor.trim());
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * iCalendar Export
+ *
+ * Turns the planned session times into an .ics file (RFC 5545) that can be
+ * imported into the lab's booking calendar.
+ */
+
+import { ExperimentData, Participant, isWithdrawn } from './randomization';
+
+// Escape TEXT values: backslash, semicolon, comma and newlines
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// UTC date-time in the basic format, e.g. 20250114T083000Z
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function buildEvents(data: ExperimentData, participant: Participant, stamp: string): string[] {
+  const lines: string[] = [];
+  for (const session of participant.sessions) {
+    if (!session.plannedAt) continue;
+    const start = new Date(session.plannedAt);
+    const end = new Date(start.getTime() + data.design.minutesPerSession * 60000);
+    const description = [
+      `Modality order: ${session.modalityOrder.join(' → ')}`,
+      `Model type order: ${session.modelTypeOrder.join(' → ')}`,
+      `${session.totalMeasurements} measurements`,
+      ...(session.operator ? [`Operator: ${session.operator}`] : []),
+    ].join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:participant-${participant.recordId}-session-${session.sessionNumber}-${data.generatedAt.replace(/\D/g, '')}@medicalshuffle`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatDateTime(start)}`,
+      `DTEND:${formatDateTime(end)}`,
+      `SUMMARY:${escapeText(`Participant #${participant.recordId} · Session ${session.sessionNumber}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      'END:VEVENT',
+    );
+  }
+  return lines;
+}
+
+// Calendar with one event per planned session of the given participants
+// (every active participant when none are given)
+export function buildICalendar(data: ExperimentData, participants?: Participant[]): string {
+  const stamp = formatDateTime(new Date());
+  const included = participants ?? data.participants.filter(p => !isWithdrawn(p));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Compressibility Study//Session Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    ...included.flatMap(p => buildEvents(data, p, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Number of planned sessions a calendar for these participants would contain
+export function countPlannedSessions(participants: Participant[]): number {
+  return participants.reduce((sum, p) => sum + p.sessions.filter(s => s.plannedAt).length, 0);
+}
@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AlgorithmVersion,
+  AllocationMethod,
+  ExperimentData,
+  StratificationSettings,
+  addParticipant,
+  generateExperimentData,
+  recordMeasurementResult,
+  scheduleSession,
+  setSessionStatus,
+  withdrawParticipant,
+} from './randomization';
+import {
+  expandExperimentData,
+  expandParticipant,
+  getExpandedParticipants,
+  isCompactParticipant,
+  toStoredData,
+  toStoredParticipant,
+} from './compactStorage';
+import { verifyExperimentData } from './verification';
+
+const STRATIFICATION: StratificationSettings = {
+  factors: [{ id: 'sex', label: 'Sex', levels: ['F', 'M'] }],
+  blockSize: 4,
+};
+
+// A compact study of the given allocation method. New studies generate with
+// the current algorithm version; for an older version, participants are
+// enrolled after switching the study to it, as in a study started before an
+// algorithm change.
+function buildStudy(allocationMethod: AllocationMethod, algorithmVersion: AlgorithmVersion): ExperimentData {
+  const stratified = allocationMethod === 'stratified';
+  const generated = generateExperimentData(stratified ? 0 : 24, {
+    allocationMethod,
+    masterSeed: 4242,
+    storageFormat: 'compact',
+    ...(stratified && { stratification: STRATIFICATION }),
+  });
+  if (!stratified && algorithmVersion === generated.algorithmVersion) return generated;
+
+  let data: ExperimentData = { ...generated, algorithmVersion };
+  for (let i = 0; i < 6; i++) {
+    data = addParticipant(data, stratified ? { sex: i % 2 === 0 ? 'F' : 'M' } : undefined);
+  }
+  return data;
+}
+
+// Results, session statuses, schedules and a withdrawal for the last three
+// participants (the ones enrolled under an older algorithm version)
+function recordProgress(data: ExperimentData): ExperimentData {
+  const [first, second, third] = data.participants.slice(-3).map(p => p.recordId);
+  let result = recordMeasurementResult(data, first, { sessionNumber: 1, modality: 'palpation', modelType: 'ball', repetition: 2, modelOrder: 3 }, { rating: 4, note: 'firm' });
+  result = recordMeasurementResult(result, first, { sessionNumber: 1, modality: 'ultrasound', modelType: 'balloon', repetition: 1, modelOrder: 1 }, { skipped: true });
+  result = recordMeasurementResult(result, first, { sessionNumber: 1, modality: 'ultrasound', modelType: 'ball', repetition: 5, modelOrder: 4 }, { rating: 2, identifiedModelId: 'S1' });
+  result = setSessionStatus(result, first, 1, 'completed');
+  result = setSessionStatus(result, second, 1, 'missed');
+  result = scheduleSession(result, second, 2, { plannedAt: '2026-03-02T09:00:00.000Z', operator: 'Dr. Meier' });
+  result = scheduleSession(result, second, 3, { plannedAt: '2026-03-16T09:00:00.000Z' });
+  return withdrawParticipant(result, third, 'Moved away');
+}
+
+function assertRoundTrip(data: ExperimentData): void {
+  for (const participant of data.participants) {
+    const stored = toStoredParticipant(data, participant);
+    assert.ok(isCompactParticipant(stored), `participant #${participant.recordId} is stored compactly`);
+    assert.deepEqual(expandParticipant(data, stored), participant);
+    // As read back from the database
+    assert.deepEqual(expandParticipant(data, JSON.parse(JSON.stringify(stored))), participant);
+  }
+  assert.deepEqual(expandExperimentData(JSON.parse(JSON.stringify(toStoredData(data)))), data);
+}
+
+describe('compact storage round trip', () => {
+  for (const allocationMethod of ['random', 'williams', 'stratified'] as const) {
+    for (const algorithmVersion of [1, 2] as const) {
+      describe(`${allocationMethod} allocation, algorithm version ${algorithmVersion}`, () => {
+        const data = buildStudy(allocationMethod, algorithmVersion);
+
+        it('has participants of the algorithm version', () => {
+          assert.ok(data.participants.some(p => p.algorithmVersion === algorithmVersion));
+        });
+
+        it('reproduces freshly generated participants', () => {
+          assertRoundTrip(data);
+        });
+
+        it('reproduces recorded results, schedules and withdrawn participants', () => {
+          const progressed = recordProgress(data);
+          const [first, second, third] = progressed.participants.slice(-3);
+          assert.equal(third.algorithmVersion, algorithmVersion);
+          assert.equal(first.sessions[0].status, 'completed');
+          assert.equal(second.sessions[1].operator, 'Dr. Meier');
+          assert.ok(third.withdrawnAt);
+          assertRoundTrip(progressed);
+        });
+      });
+    }
+  }
+
+  it('stores participants of expanded studies as they are', () => {
+    const data = generateExperimentData(4, { masterSeed: 4242 });
+    for (const participant of data.participants) {
+      assert.equal(toStoredParticipant(data, participant), participant);
+    }
+    assert.equal(toStoredData(data), data);
+  });
+
+  it("stores a participant expanded when it doesn't match its seed and reports it", () => {
+    const data = buildStudy('random', 2);
+    const [participant] = data.participants;
+    const edited = { ...participant, randomSeed: participant.randomSeed + 1 };
+    assert.equal(toStoredParticipant(data, edited), edited);
+    const withEdited = { ...data, participants: [edited, ...data.participants.slice(1)] };
+    assert.deepEqual(getExpandedParticipants(withEdited), [1]);
+    assert.deepEqual(verifyExperimentData(withEdited).storedExpanded, [1]);
+    assert.deepEqual(getExpandedParticipants(data), []);
+  });
+});
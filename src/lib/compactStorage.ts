@@ -0,0 +1,162 @@
+/**
+ * Compact Storage
+ *
+ * A participant's sessions are fully determined by its seed (with its
+ * allocation slot, strata and algorithm version), and every session repeats
+ * the same structure. Studies with the 'compact' storage format only store
+ * what can't be regenerated: each session's status and schedule, and the
+ * recorded results. Sessions are expanded again when the data is read, so
+ * the rest of the app only ever sees the expanded form.
+ *
+ * A participant is only stored compactly if expanding it reproduces it
+ * exactly; otherwise (e.g. hand-edited data) it is stored as it is.
+ */
+
+import {
+  ExperimentData,
+  MeasurementKey,
+  MeasurementResult,
+  ModelType,
+  ModelTypeBlock,
+  Participant,
+  Session,
+  reproduceParticipant,
+} from './randomization';
+import { stableStringify } from './sync';
+
+// A recorded result with the position of its measurement in the session
+export interface CompactResult extends Omit<MeasurementKey, 'sessionNumber'> {
+  result: MeasurementResult;
+}
+
+// Session fields regenerated from the seed
+const GENERATED_SESSION_FIELDS = [
+  'sessionNumber',
+  'modalityOrder',
+  'modelTypeOrder',
+  'ballSphereOrder',
+  'balloonOrder',
+  'modalities',
+  'totalMeasurements',
+] as const;
+
+// What is left of a session: its status, schedule and recorded results
+export type CompactSession = Omit<Session, typeof GENERATED_SESSION_FIELDS[number]> & {
+  results?: CompactResult[];
+};
+
+export interface CompactParticipant extends Omit<Participant, 'sessions'> {
+  compactSessions: CompactSession[]; // In session order
+}
+
+export type StoredParticipant = Participant | CompactParticipant;
+
+export function isCompactParticipant(participant: unknown): participant is CompactParticipant {
+  return Array.isArray((participant as CompactParticipant | null)?.compactSessions);
+}
+
+function compactSession(session: Session): CompactSession {
+  const compact: Partial<Session> & { results?: CompactResult[] } = { ...session };
+  for (const field of GENERATED_SESSION_FIELDS) {
+    delete compact[field];
+  }
+  const results: CompactResult[] = [];
+  for (const block of session.modalities) {
+    const modelTypeBlocks: [ModelType, ModelTypeBlock][] = [
+      ['ball', block.ballBlock],
+      ['balloon', block.balloonBlock],
+    ];
+    for (const [modelType, modelTypeBlock] of modelTypeBlocks) {
+      for (const m of modelTypeBlock.measurements) {
+        if (m.result) {
+          results.push({ modality: block.modality, modelType, repetition: m.repetition, modelOrder: m.modelOrder, result: m.result });
+        }
+      }
+    }
+  }
+  if (results.length > 0) compact.results = results;
+  return compact as CompactSession;
+}
+
+function expandSession(generated: Session, compact: CompactSession): Session {
+  const { results = [], ...state } = compact;
+  const findResult = (modality: string, modelType: ModelType, repetition: number, modelOrder: number) =>
+    results.find(r => r.modality === modality && r.modelType === modelType && r.repetition === repetition && r.modelOrder === modelOrder)?.result;
+
+  return {
+    ...generated,
+    ...state,
+    modalities: generated.modalities.map(block => {
+      const withResults = (modelType: ModelType, modelTypeBlock: ModelTypeBlock): ModelTypeBlock => ({
+        ...modelTypeBlock,
+        measurements: modelTypeBlock.measurements.map(m => {
+          const result = findResult(block.modality, modelType, m.repetition, m.modelOrder);
+          return result ? { ...m, result } : m;
+        }),
+      });
+      return { ...block, ballBlock: withResults('ball', block.ballBlock), balloonBlock: withResults('balloon', block.balloonBlock) };
+    }),
+  };
+}
+
+// Rebuild a compact participant's sessions from its seed. Participants that
+// are already expanded are returned as they are.
+export function expandParticipant(data: ExperimentData, participant: StoredParticipant): Participant {
+  if (!isCompactParticipant(participant)) return participant;
+  const { compactSessions, ...rest } = participant;
+  const generated = reproduceParticipant(data, { ...rest, sessions: [] });
+  return {
+    ...rest,
+    sessions: generated.sessions.map((session, idx) => expandSession(session, compactSessions[idx] ?? {})),
+  };
+}
+
+// The form a participant is stored in, following the study's storage format.
+// A participant its compact form doesn't reproduce is returned expanded (see
+// getExpandedParticipants).
+export function toStoredParticipant(data: ExperimentData, participant: Participant): StoredParticipant {
+  if (data.storageFormat !== 'compact') return participant;
+  const { sessions, ...rest } = participant;
+  const compact: CompactParticipant = { ...rest, compactSessions: sessions.map(compactSession) };
+  try {
+    if (stableStringify(expandParticipant(data, compact)) === stableStringify(participant)) {
+      return compact;
+    }
+  } catch {
+    // Can't be regenerated; stored expanded below
+  }
+  return participant;
+}
+
+// Record IDs of a compact study's participants that are stored expanded
+// because their compact form doesn't reproduce them
+export function getExpandedParticipants(data: ExperimentData): number[] {
+  if (data.storageFormat !== 'compact') return [];
+  return data.participants
+    .filter(p => !isCompactParticipant(toStoredParticipant(data, p)))
+    .map(p => p.recordId);
+}
+
+// Expand every compact participant of freshly read data. Participants that
+// can't be regenerated are left for validation to report.
+export function expandExperimentData(data: ExperimentData): ExperimentData {
+  const participants = data.participants as unknown[];
+  if (!participants.some(isCompactParticipant)) return data;
+  return {
+    ...data,
+    participants: participants.map(participant => {
+      try {
+        return expandParticipant(data, participant as StoredParticipant);
+      } catch (error) {
+        console.error('Error expanding participant:', error);
+        return participant as Participant;
+      }
+    }),
+  };
+}
+
+// Study data in the form it is stored in (for snapshots)
+export function toStoredData(data: ExperimentData): Omit<ExperimentData, 'participants'> & { participants: StoredParticipant[] } {
+  if (data.storageFormat !== 'compact') return data;
+  return { ...data, participants: data.participants.map(p => toStoredParticipant(data, p)) };
+}
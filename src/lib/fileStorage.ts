@@ -0,0 +1,130 @@
+// Storage backend for self-hosting: documents live in a JSON file on the
+// server, read and written through the /api/storage route
+import type { ListOptions, StorageBackend, StorageTransaction } from './storage';
+
+const API_PATH = '/api/storage';
+const POLL_INTERVAL_MS = 3000;
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+// A document and its contents; null means the document doesn't exist (or,
+// as a write, deletes it)
+export interface DocumentState {
+  path: string;
+  data: unknown;
+}
+
+export type StorageRequest =
+  | { op: 'get'; path: string }
+  | { op: 'set'; path: string; data: unknown }
+  | { op: 'delete'; path: string }
+  | { op: 'add'; path: string; data: unknown }
+  | { op: 'list'; path: string; options?: ListOptions }
+  | { op: 'count'; path: string }
+  | { op: 'commit'; reads: DocumentState[]; writes: DocumentState[] };
+
+// Key the route checks against its server-only STORAGE_ACCESS_KEY: the
+// password entered at login
+let accessKey = '';
+
+export function setStorageAccessKey(key: string): void {
+  accessKey = key;
+}
+
+async function call<T>(request: StorageRequest): Promise<T> {
+  const response = await fetch(API_PATH, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessKey}` },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    throw new Error(`Storage request failed: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+// The file backend has no push channel, so subscriptions poll
+function poll<T>(load: () => Promise<T>, onData: (data: T) => void, onError: (error: Error) => void): () => void {
+  let lastJson: string | undefined;
+  let isActive = true;
+  const check = async () => {
+    try {
+      const data = await load();
+      const json = JSON.stringify(data);
+      if (isActive && json !== lastJson) {
+        lastJson = json;
+        onData(data);
+      }
+    } catch (error) {
+      if (isActive) onError(error as Error);
+    }
+  };
+  check();
+  const interval = setInterval(check, POLL_INTERVAL_MS);
+  return () => {
+    isActive = false;
+    clearInterval(interval);
+  };
+}
+
+export function createFileBackend(): StorageBackend {
+  const get = async <T>(path: string) => (await call<{ data: T | null }>({ op: 'get', path })).data;
+  const list = async <T>(collectionPath: string, options?: ListOptions) =>
+    (await call<{ items: T[] }>({ op: 'list', path: collectionPath, options })).items;
+
+  return {
+    get,
+
+    async set<T>(path: string, data: T) {
+      await call({ op: 'set', path, data });
+    },
+
+    async delete(path: string) {
+      await call({ op: 'delete', path });
+    },
+
+    async add<T>(collectionPath: string, data: T) {
+      await call({ op: 'add', path: collectionPath, data });
+    },
+
+    list,
+
+    async count(collectionPath: string) {
+      return (await call<{ count: number }>({ op: 'count', path: collectionPath })).count;
+    },
+
+    // Optimistic: the writes are only applied if every document read is
+    // still unchanged
+    async runTransaction<R>(run: (transaction: StorageTransaction) => Promise<R>) {
+      for (let attempt = 0; attempt < MAX_TRANSACTION_ATTEMPTS; attempt++) {
+        const reads = new Map<string, unknown>();
+        const writes = new Map<string, unknown>();
+        const result = await run({
+          async get<T>(path: string) {
+            if (!reads.has(path)) reads.set(path, await get(path));
+            // The callback may modify what it's given (e.g. migrations)
+            return structuredClone(reads.get(path)) as T | null;
+          },
+          set<T>(path: string, data: T) {
+            writes.set(path, data);
+          },
+          delete(path: string) {
+            writes.set(path, null);
+          },
+        });
+        if (writes.size === 0) return result;
+        const toStates = (documents: Map<string, unknown>) => [...documents].map(([path, data]) => ({ path, data }));
+        const { ok } = await call<{ ok: boolean }>({ op: 'commit', reads: toStates(reads), writes: toStates(writes) });
+        if (ok) return result;
+      }
+      throw new Error('Could not save: the data kept changing');
+    },
+
+    subscribe<T>(path: string, onData: (data: T | null) => void, onError: (error: Error) => void) {
+      return poll(() => get<T>(path), onData, onError);
+    },
+
+    subscribeCollection<T>(collectionPath: string, onData: (items: T[]) => void, onError: (error: Error) => void) {
+      return poll(() => list<T>(collectionPath), onData, onError);
+    },
+  };
+}
@@ -13,18 +13,19 @@ const firebaseConfig = {
 };
 
 // Initialize Firebase app (singleton pattern to prevent multiple initializations)
-function getFirebaseApp(): FirebaseApp {
+export function getFirebaseApp(): FirebaseApp {
   if (!getApps().length) {
     return initializeApp(firebaseConfig);
   }
   return getApps()[0];
 }
 
-// Initialize on first use
+// Initialize on first use, so the app can run on another storage backend
+// without Firebase credentials
 let dbInstance: Firestore | null = null;
 
 // Get Firestore instance with long polling for Vercel compatibility
-export const db: Firestore = (() => {
+export function getDb(): Firestore {
   if (!dbInstance) {
     const app = getFirebaseApp();
     // Use initializeFirestore with experimentalForceLongPolling for Vercel
@@ -34,6 +35,4 @@ export const db: Firestore = (() => {
     });
   }
   return dbInstance;
-})();
-
-export default getFirebaseApp();
+}
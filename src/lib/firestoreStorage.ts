@@ -0,0 +1,90 @@
+// Firestore implementation of the storage backend
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getCountFromServer,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  QueryConstraint,
+  runTransaction,
+  setDoc,
+} from 'firebase/firestore';
+import { getDb } from './firebase';
+import type { ListOptions, StorageBackend, StorageTransaction } from './storage';
+
+export function createFirestoreBackend(): StorageBackend {
+  return {
+    async get<T>(path: string) {
+      const snapshot = await getDoc(doc(getDb(), path));
+      return snapshot.exists() ? snapshot.data() as T : null;
+    },
+
+    async set<T>(path: string, data: T) {
+      await setDoc(doc(getDb(), path), data as object);
+    },
+
+    async delete(path: string) {
+      await deleteDoc(doc(getDb(), path));
+    },
+
+    async add<T>(collectionPath: string, data: T) {
+      await addDoc(collection(getDb(), collectionPath), data as object);
+    },
+
+    async list<T>(collectionPath: string, options: ListOptions = {}) {
+      const constraints: QueryConstraint[] = [];
+      if (options.orderBy) constraints.push(orderBy(options.orderBy, options.direction ?? 'asc'));
+      if (options.limit !== undefined) constraints.push(limit(options.limit));
+      const snapshot = await getDocs(query(collection(getDb(), collectionPath), ...constraints));
+      return snapshot.docs.map(d => d.data() as T);
+    },
+
+    async count(collectionPath: string) {
+      return (await getCountFromServer(collection(getDb(), collectionPath))).data().count;
+    },
+
+    runTransaction<R>(run: (transaction: StorageTransaction) => Promise<R>) {
+      return runTransaction(getDb(), (transaction) => run({
+        async get<T>(path: string) {
+          const snapshot = await transaction.get(doc(getDb(), path));
+          return snapshot.exists() ? snapshot.data() as T : null;
+        },
+        set<T>(path: string, data: T) {
+          transaction.set(doc(getDb(), path), data as object);
+        },
+        delete(path: string) {
+          transaction.delete(doc(getDb(), path));
+        },
+      }));
+    },
+
+    // Local pending writes are skipped; listeners only see committed data
+    subscribe<T>(path: string, onData: (data: T | null) => void, onError: (error: Error) => void) {
+      return onSnapshot(
+        doc(getDb(), path),
+        (snapshot) => {
+          if (snapshot.metadata.hasPendingWrites) return;
+          onData(snapshot.exists() ? snapshot.data() as T : null);
+        },
+        onError
+      );
+    },
+
+    subscribeCollection<T>(collectionPath: string, onData: (items: T[]) => void, onError: (error: Error) => void) {
+      return onSnapshot(
+        collection(getDb(), collectionPath),
+        (snapshot) => {
+          if (snapshot.metadata.hasPendingWrites) return;
+          onData(snapshot.docs.map(d => d.data() as T));
+        },
+        onError
+      );
+    },
+  };
+}
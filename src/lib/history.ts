@@ -0,0 +1,190 @@
+/**
+ * Snapshot History
+ *
+ * Every save that changes a study's allocation also stores a timestamped
+ * copy of the whole ExperimentData in experiments/{studyId}/snapshots, so an
+ * accidental regeneration or edit can be inspected and undone. Only the
+ * newest MAX_SNAPSHOTS are kept. Snapshots are one document each, so their
+ * participants are always stored compactly: an expanded 50-participant study
+ * is over Firestore's 1 MiB document limit.
+ */
+
+import { ExperimentData, Participant, describeStatus, getSessionStatus, getStudyPath } from './randomization';
+import { getStorage } from './storage';
+import { stableStringify } from './sync';
+import { parseExperimentData } from './validation';
+import { toStoredData } from './compactStorage';
+
+export const MAX_SNAPSHOTS = 50;
+
+export interface Snapshot {
+  id: string;
+  savedAt: string;
+  data: ExperimentData;
+}
+
+// A snapshot as stored, with compact participants
+type StoredSnapshot = Omit<Snapshot, 'data'> & { data: unknown };
+
+// Latest snapshot per study (null: none yet), to decide whether a save
+// changes the allocation
+interface LatestSnapshot {
+  allocation: string;
+  json: string; // The snapshot as stored
+}
+
+const latestSnapshots = new Map<string, LatestSnapshot | null>();
+
+function snapshotCollection(studyId: string): string {
+  return `${getStudyPath(studyId)}/snapshots`;
+}
+
+// Compact participants whatever the study's storage format, which is kept
+// as it is. Participants that don't match their seed stay expanded.
+function toSnapshotData(data: ExperimentData): unknown {
+  const { participants } = toStoredData({ ...data, storageFormat: 'compact' });
+  return { ...data, participants };
+}
+
+// Newest first, upgraded to the current schema; snapshots that fail
+// validation are left out
+export async function loadSnapshots(studyId: string): Promise<Snapshot[]> {
+  const snapshots = await getStorage().list<StoredSnapshot>(snapshotCollection(studyId), { orderBy: 'savedAt', direction: 'desc' });
+  return snapshots.flatMap((snapshot): Snapshot[] => {
+    try {
+      return [{ ...snapshot, data: parseExperimentData(snapshot.data) }];
+    } catch (error) {
+      console.error(`Error reading snapshot ${snapshot.id}:`, error);
+      return [];
+    }
+  });
+}
+
+// What snapshots are taken for: the study's allocation (design, seeds and
+// allocation slots), not session progress or results
+function allocationKey(data: ExperimentData): string {
+  return stableStringify({
+    generatedAt: data.generatedAt,
+    design: data.design,
+    masterSeed: data.masterSeed ?? null,
+    allocationMethod: data.allocationMethod ?? null,
+    stratification: data.stratification ?? null,
+    participants: data.participants.map(p => [p.recordId, p.randomSeed, p.allocationIndex ?? null, p.strata ?? null]),
+  });
+}
+
+async function loadLatestSnapshot(studyId: string): Promise<LatestSnapshot | null> {
+  if (!latestSnapshots.has(studyId)) {
+    const [latest] = await getStorage().list<StoredSnapshot>(snapshotCollection(studyId), { orderBy: 'savedAt', direction: 'desc', limit: 1 });
+    let allocation = '';
+    try {
+      allocation = latest ? allocationKey(parseExperimentData(latest.data)) : '';
+    } catch {
+      // A damaged snapshot matches no allocation
+    }
+    latestSnapshots.set(studyId, latest ? { allocation, json: stableStringify(latest.data) } : null);
+  }
+  return latestSnapshots.get(studyId) ?? null;
+}
+
+async function writeSnapshot(studyId: string, data: ExperimentData, savedAt: Date): Promise<void> {
+  const stored = toSnapshotData(data);
+  const id = savedAt.toISOString().replace(/\D/g, '');
+  await getStorage().set<StoredSnapshot>(`${snapshotCollection(studyId)}/${id}`, { id, savedAt: savedAt.toISOString(), data: stored });
+  latestSnapshots.set(studyId, { allocation: allocationKey(data), json: stableStringify(stored) });
+}
+
+// Store a copy of the data when a save changes the allocation (generating,
+// adding, removing or regenerating participants, importing or restoring), so
+// progress saves never push an earlier allocation out of the retention limit.
+// The version saved before the change is stored first if it has progress the
+// latest snapshot lacks. Then drop the oldest snapshots beyond the limit.
+export async function saveSnapshot(studyId: string, data: ExperimentData, previous: ExperimentData | null = null): Promise<void> {
+  const latest = await loadLatestSnapshot(studyId);
+  if (latest?.allocation === allocationKey(data)) return;
+
+  const savedAt = Date.now();
+  if (previous && latest && latest.allocation === allocationKey(previous) && latest.json !== stableStringify(toSnapshotData(previous))) {
+    // One millisecond earlier, so it sorts (and is named) before the change
+    await writeSnapshot(studyId, previous, new Date(savedAt - 1));
+  }
+  await writeSnapshot(studyId, data, new Date(savedAt));
+
+  const count = await getStorage().count(snapshotCollection(studyId));
+  if (count > MAX_SNAPSHOTS) {
+    const oldest = await getStorage().list<StoredSnapshot>(snapshotCollection(studyId), { orderBy: 'savedAt', direction: 'asc', limit: count - MAX_SNAPSHOTS });
+    await Promise.all(oldest.map(s => getStorage().delete(`${snapshotCollection(studyId)}/${s.id}`)));
+  }
+}
+
+function countResults(participant: Participant): number {
+  return participant.sessions.reduce((sum, s) => sum + s.modalities.reduce((mSum, m) =>
+    mSum + [...m.ballBlock.measurements, ...m.balloonBlock.measurements].filter(x => x.result).length, 0), 0);
+}
+
+function diffParticipant(from: Participant, to: Participant): string[] {
+  const changes: string[] = [];
+  const label = `Participant #${to.recordId}`;
+
+  if (from.randomSeed !== to.randomSeed) {
+    changes.push(`${label}: seed ${from.randomSeed} → ${to.randomSeed}`);
+  }
+  if (!from.withdrawnAt && to.withdrawnAt) {
+    changes.push(`${label}: withdrawn${to.withdrawalReason ? ` (${to.withdrawalReason})` : ''}`);
+  }
+  if (from.withdrawnAt && !to.withdrawnAt) {
+    changes.push(`${label}: reinstated`);
+  }
+  // Sessions turning withdrawn are already covered by the withdrawal line
+  const withdrawalChanged = !from.withdrawnAt !== !to.withdrawnAt;
+  for (const session of to.sessions) {
+    const before = from.sessions.find(s => s.sessionNumber === session.sessionNumber);
+    if (!before) continue;
+    const fromStatus = getSessionStatus(from, before);
+    const toStatus = getSessionStatus(to, session);
+    const isWithdrawalOnly = withdrawalChanged && (fromStatus === 'withdrawn' || toStatus === 'withdrawn');
+    if (fromStatus !== toStatus && !isWithdrawalOnly) {
+      changes.push(`${label}, session ${session.sessionNumber}: ${describeStatus(fromStatus)} → ${describeStatus(toStatus)}`);
+    }
+    if (before.plannedAt !== session.plannedAt || before.operator !== session.operator) {
+      changes.push(`${label}, session ${session.sessionNumber}: schedule changed`);
+    }
+  }
+  const fromResults = countResults(from);
+  const toResults = countResults(to);
+  if (fromResults !== toResults) {
+    changes.push(`${label}: ${fromResults} → ${toResults} recorded results`);
+  }
+  return changes;
+}
+
+// Human-readable list of what changed between two versions of a study
+export function diffExperimentData(from: ExperimentData, to: ExperimentData): string[] {
+  const changes: string[] = [];
+
+  if (from.generatedAt !== to.generatedAt) {
+    changes.push(`Randomization regenerated (${new Date(from.generatedAt).toLocaleString()} → ${new Date(to.generatedAt).toLocaleString()})`);
+  }
+  if (from.allocationMethod !== to.allocationMethod) {
+    changes.push(`Allocation method: ${from.allocationMethod ?? 'random'} → ${to.allocationMethod ?? 'random'}`);
+  }
+  if (from.masterSeed !== to.masterSeed) {
+    changes.push(`Master seed: ${from.masterSeed ?? 'none'} → ${to.masterSeed ?? 'none'}`);
+  }
+  if (stableStringify(from.design) !== stableStringify(to.design)) {
+    changes.push('Study design changed');
+  }
+
+  const fromIds = new Set(from.participants.map(p => p.recordId));
+  const toIds = new Set(to.participants.map(p => p.recordId));
+  const added = to.participants.filter(p => !fromIds.has(p.recordId)).map(p => `#${p.recordId}`);
+  const removed = from.participants.filter(p => !toIds.has(p.recordId)).map(p => `#${p.recordId}`);
+  if (added.length > 0) changes.push(`Participants added: ${added.join(', ')}`);
+  if (removed.length > 0) changes.push(`Participants removed: ${removed.join(', ')}`);
+
+  for (const participant of to.participants) {
+    const before = from.participants.find(p => p.recordId === participant.recordId);
+    if (before) changes.push(...diffParticipant(before, participant));
+  }
+  return changes;
+}
@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ExperimentData,
+  exportToCSV,
+  exportToJSON,
+  generateExperimentData,
+  recordMeasurementResult,
+  removeParticipant,
+  setSessionStatus,
+  withdrawParticipant,
+} from './randomization';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { verifyExperimentData } from './verification';
+import { importExperimentData, mergeImportedData } from './importData';
+
+function toCSV(data: ExperimentData): string {
+  return exportToCSV(data, verifyExperimentData(data));
+}
+
+// A study with results, statuses and a withdrawal
+function buildStudy(options: Parameters<typeof generateExperimentData>[1]): ExperimentData {
+  let data = generateExperimentData(3, { masterSeed: 8080, ...options });
+  data = recordMeasurementResult(data, 1, { sessionNumber: 1, modality: 'ultrasound', modelType: 'ball', repetition: 1, modelOrder: 2 }, { rating: 3, note: 'soft, "round"' });
+  data = recordMeasurementResult(data, 1, { sessionNumber: 1, modality: 'palpation', modelType: 'balloon', repetition: 4, modelOrder: 1 }, { skipped: true });
+  data = setSessionStatus(data, 2, 1, 'missed');
+  return withdrawParticipant(data, 3, 'Moved away');
+}
+
+describe('JSON import', () => {
+  const data = buildStudy({ allocationMethod: 'williams' });
+
+  it('reads back an export exactly', () => {
+    const imported = importExperimentData('study.json', exportToJSON(data, verifyExperimentData(data)), null);
+    assert.equal(imported.format, 'json');
+    assert.deepEqual(imported.data, data);
+    assert.deepEqual(imported.notes, []);
+  });
+
+  it('refuses a participant that no longer matches its seed', () => {
+    const tampered: ExperimentData = JSON.parse(JSON.stringify(data));
+    tampered.participants[1].randomSeed += 1;
+    assert.throws(() => importExperimentData('study.json', JSON.stringify(tampered), null), /^Error: Seed verification failed for #2: /);
+  });
+
+  it('refuses files that are not study data', () => {
+    assert.throws(() => importExperimentData('study.json', '{ "participants": [', null), /not valid JSON/);
+    assert.throws(() => importExperimentData('study.json', JSON.stringify({ ...data, schemaVersion: CURRENT_SCHEMA_VERSION + 1 }), null), /only supports up to version/);
+    assert.throws(() => importExperimentData('study.json', JSON.stringify({ ...data, participants: [{ recordId: 1 }] }), null), /damaged or incomplete/);
+  });
+});
+
+describe('CSV import', () => {
+  const data = buildStudy({});
+
+  it('restores allocations, results and statuses into the study it came from', () => {
+    const imported = importExperimentData('study.csv', toCSV(data), data);
+    assert.equal(imported.format, 'csv');
+    for (const [idx, participant] of imported.data.participants.entries()) {
+      const original = data.participants[idx];
+      assert.equal(participant.randomSeed, original.randomSeed);
+      assert.deepEqual(
+        participant.sessions.map(s => ({ status: s.status, modalities: s.modalities })),
+        original.sessions.map(s => ({ status: s.status, modalities: s.modalities }))
+      );
+    }
+    assert.deepEqual(toCSV(imported.data), toCSV(data));
+  });
+
+  it('rebuilds a study from the file alone', () => {
+    const imported = importExperimentData('study.csv', toCSV(data), null);
+    assert.deepEqual(imported.data.participants.map(p => p.randomSeed), data.participants.map(p => p.randomSeed));
+    assert.ok(verifyExperimentData(imported.data).passed);
+    assert.ok(imported.notes.some(note => note.includes('rebuilt from the file')));
+  });
+
+  it('finds the allocation slots of a counterbalanced study', () => {
+    const williams = buildStudy({ allocationMethod: 'williams' });
+    const imported = importExperimentData('study.csv', toCSV(williams), williams);
+    assert.deepEqual(imported.data.participants.map(p => p.allocationIndex), [0, 1, 2]);
+    assert.deepEqual(toCSV(imported.data), toCSV(williams));
+  });
+
+  it('refuses rows that no seed reproduces', () => {
+    // Swap the models of participant #1's first two measurements
+    const modelColumns = /,[SB]\d,[^,]+,/;
+    const [header, first, second, ...rest] = toCSV(data).split('\n');
+    const tampered = [
+      header,
+      first.replace(modelColumns, second.match(modelColumns)![0]),
+      second.replace(modelColumns, first.match(modelColumns)![0]),
+      ...rest,
+    ];
+    assert.throws(() => importExperimentData('study.csv', tampered.join('\n'), data), /No allocation reproduces the rows of #1 from their seeds/);
+  });
+
+  it('refuses a participant with two seeds', () => {
+    const lines = toCSV(data).split('\n');
+    lines[2] = lines[2].replace(`1,${data.participants[0].randomSeed},`, `1,${data.participants[0].randomSeed + 1},`);
+    assert.throws(() => importExperimentData('study.csv', lines.join('\n'), data), /Row 3: participant #1 has more than one random seed/);
+  });
+});
+
+describe('merging an import', () => {
+  const data = buildStudy({});
+
+  it('adds missing participants and keeps the current version of changed ones', () => {
+    const current = setSessionStatus(removeParticipant(data, 2), 1, 2, 'missed');
+    const { data: merged, kept } = mergeImportedData(current, data);
+    assert.deepEqual(merged.participants.map(p => p.recordId), [1, 2, 3]);
+    assert.deepEqual(kept, [1]);
+    assert.deepEqual(merged.participants[0], current.participants[0]);
+    assert.deepEqual(merged.participants[1], data.participants[1]);
+  });
+
+  it('only replaces a different randomization', () => {
+    const other = generateExperimentData(3, { masterSeed: 1 });
+    assert.throws(() => mergeImportedData({ ...other, generatedAt: '2000-01-01T00:00:00.000Z' }, data), /can only replace it/);
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Data Import
+ *
+ * Reads back the JSON and CSV exports, e.g. to move a study to a new
+ * project or to recover it after the database was lost. JSON exports hold
+ * the complete ExperimentData. The CSV holds one row per measurement but not
+ * the study settings, so its participants are regenerated from their seeds
+ * (with the current study's settings when there is one) and the recorded
+ * results and statuses are filled in from the rows. Either way every
+ * participant must match its seed before the data can be imported.
+ *
+ * Other CSV files are read as REDCap record exports and aligned with the
+ * current study (see redcap.ts).
+ */
+
+import {
+  ALGORITHM_VERSIONS,
+  AlgorithmVersion,
+  CURRENT_ALGORITHM_VERSION,
+  DEFAULT_STUDY_DESIGN,
+  ExperimentData,
+  MeasurementResult,
+  ModelType,
+  ModelTypeBlock,
+  ModelTypeDefinition,
+  Participant,
+  SESSION_STATUSES,
+  Session,
+  SessionStatus,
+  StudyDesign,
+  computeSummary,
+  getSessionSteps,
+  parseCSV,
+  reproduceParticipant,
+  updateSummary,
+} from './randomization';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { parseExperimentData } from './validation';
+import { verifyExperimentData } from './verification';
+import { mergeExperimentData } from './sync';
+import { alignWithRedcap, parseRedcapRecords } from './redcap';
+
+export type ImportFormat = 'json' | 'csv' | 'redcap';
+
+export interface ImportedData {
+  format: ImportFormat;
+  data: ExperimentData;
+  notes: string[]; // What the file couldn't restore
+  enrolled?: number[]; // Record IDs enrolled from a REDCap record list
+}
+
+// Allocation slots tried when looking for a counterbalanced participant's slot
+const MAX_ALLOCATION_SLOTS = 50;
+
+// Columns of the CSV export (see ExportButtons) needed to rebuild a study
+const CSV_COLUMNS = {
+  participantId: 'Participant ID',
+  randomSeed: 'Random Seed',
+  session: 'Session',
+  modality: 'Modality',
+  modelType: 'Model Type',
+  repetition: 'Repetition',
+  modelPosition: 'Model Position',
+  modelId: 'Model ID',
+  modelName: 'Model Name',
+  participantStatus: 'Participant Status',
+  sessionStatus: 'Session Status',
+  rating: 'Rating',
+  identifiedModel: 'Identified Model',
+  skipped: 'Skipped',
+  note: 'Note',
+  startedAt: 'Measurement Started',
+  recordedAt: 'Result Recorded',
+} as const;
+
+type CSVRow = Record<keyof typeof CSV_COLUMNS, string>;
+
+function readCSVRows(text: string): CSVRow[] {
+  const [headers, ...lines] = parseCSV(text);
+  if (!headers) {
+    throw new Error('The CSV file is empty');
+  }
+  const indexes = Object.entries(CSV_COLUMNS).map(([key, label]) => {
+    const index = headers.indexOf(label);
+    if (index === -1) {
+      throw new Error(`The CSV file has no "${label}" column; only CSV exports of this app can be imported`);
+    }
+    return [key, index] as const;
+  });
+  return lines.map(line => Object.fromEntries(indexes.map(([key, index]) => [key, line[index] ?? ''])) as CSVRow);
+}
+
+function parseInteger(value: string, label: string, line: number): number {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isInteger(number)) {
+    throw new Error(`Row ${line}: ${label} "${value}" is not a whole number`);
+  }
+  return number;
+}
+
+// Study design rebuilt from the CSV rows when there is no current study.
+// Known modalities and models take their definitions from the default design.
+function inferDesign(rows: CSVRow[]): StudyDesign {
+  const modalities = [...new Set(rows.map(r => r.modality))].map(id => {
+    const known = DEFAULT_STUDY_DESIGN.modalities.find(m => m.id === id);
+    if (!known) {
+      throw new Error(`Unknown modality "${id}": import this CSV into a study with the same design, or use a JSON export`);
+    }
+    return known;
+  });
+  // Keep the default design's order, which the generator depends on
+  modalities.sort((a, b) => DEFAULT_STUDY_DESIGN.modalities.indexOf(a) - DEFAULT_STUDY_DESIGN.modalities.indexOf(b));
+
+  const modelTypes = DEFAULT_STUDY_DESIGN.modelTypes.map((definition): ModelTypeDefinition => {
+    const ids = new Set(rows.filter(r => r.modelType === definition.id).map(r => r.modelId));
+    const unknown = [...ids].filter(id => !definition.models.some(m => m.id === id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown model ${unknown[0]}: import this CSV into a study with the same design, or use a JSON export`);
+    }
+    return { ...definition, models: definition.models.filter(m => ids.has(m.id)) };
+  });
+
+  return {
+    ...DEFAULT_STUDY_DESIGN,
+    modalities,
+    modelTypes,
+    repetitions: Math.max(...rows.map(r => Number(r.repetition))),
+    sessionsPerParticipant: Math.max(...rows.map(r => Number(r.session))),
+  };
+}
+
+// Measurement sequence of a session, to compare a regenerated participant
+// with the rows
+function sessionSequence(session: Session): string {
+  return getSessionSteps(session)
+    .map(step => [step.modality, step.modelType, step.measurement.repetition, step.measurement.modelOrder, step.measurement.modelId].join('|'))
+    .join(',');
+}
+
+function rowSequence(rows: CSVRow[]): string {
+  return rows.map(r => [r.modality, r.modelType, r.repetition, r.modelPosition, r.modelId].join('|')).join(',');
+}
+
+// Find the allocation that reproduces a participant's rows: the current
+// study's record first, then every algorithm version and allocation slot
+function regenerateFromRows(
+  study: ExperimentData,
+  known: Participant | undefined,
+  recordId: number,
+  randomSeed: number,
+  sessionRows: CSVRow[][]
+): Participant | null {
+  const versions = (Object.keys(ALGORITHM_VERSIONS).map(Number) as AlgorithmVersion[]).sort((a, b) => b - a);
+  const slots = study.allocationMethod === 'williams'
+    ? [recordId - 1, ...Array.from({ length: MAX_ALLOCATION_SLOTS }, (_, i) => i)]
+    : [undefined];
+  const candidates: Participant[] = [
+    ...(known ? [known] : []),
+    ...versions.flatMap(algorithmVersion => slots.map(allocationIndex => ({
+      recordId,
+      randomSeed,
+      algorithmVersion,
+      ...(allocationIndex !== undefined && { allocationIndex }),
+      sessions: [],
+    }))),
+  ];
+
+  for (const candidate of candidates) {
+    try {
+      const participant = reproduceParticipant(study, candidate);
+      const matches = participant.sessions.length === sessionRows.length &&
+        participant.sessions.every((session, idx) => sessionSequence(session) === rowSequence(sessionRows[idx]));
+      if (matches) return participant;
+    } catch {
+      // e.g. a stratified study without the participant's strata
+    }
+  }
+  return null;
+}
+
+function readResult(row: CSVRow, importedAt: string): MeasurementResult | undefined {
+  const result: Partial<MeasurementResult> = {};
+  if (row.rating !== '') result.rating = Number(row.rating);
+  if (row.identifiedModel !== '') result.identifiedModelId = row.identifiedModel;
+  if (row.note !== '') result.note = row.note;
+  if (row.skipped === 'yes') result.skipped = true;
+  if (row.startedAt !== '') result.startedAt = row.startedAt;
+  if (Object.keys(result).length === 0 && row.recordedAt === '') return undefined;
+  return { ...result, recordedAt: row.recordedAt || importedAt };
+}
+
+// Session status from its rows. Unfinished sessions of a withdrawn
+// participant are exported as 'withdrawn'; they count as started when they
+// have results.
+function readSessionStatus(rows: CSVRow[], hasResults: boolean): SessionStatus {
+  const status = rows[0].sessionStatus;
+  if (status === 'withdrawn') return hasResults ? 'in_progress' : 'scheduled';
+  if (!SESSION_STATUSES.includes(status as SessionStatus)) {
+    throw new Error(`Participant #${rows[0].participantId}, session ${rows[0].session}: unknown status "${status}"`);
+  }
+  return status as SessionStatus;
+}
+
+// Statuses and results from the rows, on top of the regenerated sessions.
+// Session start and end times are taken from the first and last result.
+function applyRows(participant: Participant, sessionRows: CSVRow[][], importedAt: string): Participant {
+  const sessions = participant.sessions.map((session, idx) => {
+    const rows = sessionRows[idx];
+    const results = new Map(rows.map(r => [[r.modality, r.modelType, r.repetition, r.modelPosition].join('|'), readResult(r, importedAt)]));
+    const recorded = [...results.values()].filter((r): r is MeasurementResult => r !== undefined);
+    const status = readSessionStatus(rows, recorded.length > 0);
+    const times = recorded.flatMap(r => [r.startedAt ?? r.recordedAt, r.recordedAt]).sort();
+
+    const updated: Session = {
+      ...session,
+      modalities: session.modalities.map(block => {
+        const withResults = (modelType: ModelType, modelTypeBlock: ModelTypeBlock): ModelTypeBlock => ({
+          ...modelTypeBlock,
+          measurements: modelTypeBlock.measurements.map(m => {
+            const result = results.get([block.modality, modelType, m.repetition, m.modelOrder].join('|'));
+            return result ? { ...m, result } : m;
+          }),
+        });
+        return { ...block, ballBlock: withResults('ball', block.ballBlock), balloonBlock: withResults('balloon', block.balloonBlock) };
+      }),
+    };
+    if (status !== 'scheduled') updated.status = status;
+    if (status === 'in_progress' || status === 'completed' || recorded.length > 0) {
+      updated.startedAt = times[0] ?? importedAt;
+    }
+    if (status === 'completed') updated.completedAt = times[times.length - 1] ?? importedAt;
+    return updated;
+  });
+
+  const isWithdrawnRow = sessionRows[0][0].participantStatus === 'withdrawn';
+  return {
+    ...participant,
+    ...(isWithdrawnRow && { withdrawnAt: importedAt, withdrawalReason: 'Withdrawn (imported from CSV)' }),
+    sessions,
+  };
+}
+
+function importCSV(text: string, current: ExperimentData | null): ImportedData {
+  const rows = readCSVRows(text);
+  if (rows.length === 0) {
+    throw new Error('The CSV file has no measurements');
+  }
+  const importedAt = new Date().toISOString();
+
+  // Rows per participant (in file order) and session
+  const byParticipant = new Map<number, { randomSeed: number; sessions: Map<number, CSVRow[]> }>();
+  rows.forEach((row, idx) => {
+    const line = idx + 2;
+    const recordId = parseInteger(row.participantId, 'participant ID', line);
+    const randomSeed = parseInteger(row.randomSeed, 'random seed', line);
+    const sessionNumber = parseInteger(row.session, 'session', line);
+    parseInteger(row.repetition, 'repetition', line);
+    parseInteger(row.modelPosition, 'model position', line);
+    if (!byParticipant.has(recordId)) {
+      byParticipant.set(recordId, { randomSeed, sessions: new Map() });
+    }
+    const entry = byParticipant.get(recordId)!;
+    if (entry.randomSeed !== randomSeed) {
+      throw new Error(`Row ${line}: participant #${recordId} has more than one random seed`);
+    }
+    if (!entry.sessions.has(sessionNumber)) entry.sessions.set(sessionNumber, []);
+    entry.sessions.get(sessionNumber)!.push(row);
+  });
+
+  const design = current?.design ?? inferDesign(rows);
+  const study: ExperimentData = current ?? {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    generatedAt: importedAt,
+    design,
+    allocationMethod: 'random',
+    algorithmVersion: CURRENT_ALGORITHM_VERSION,
+    participants: [],
+    summary: computeSummary(design, 0),
+  };
+
+  const participants: Participant[] = [];
+  const unmatched: number[] = [];
+  for (const [recordId, entry] of byParticipant) {
+    const sessionRows = [...entry.sessions.entries()].sort(([a], [b]) => a - b).map(([, r]) => r);
+    const known = current?.participants.find(p => p.recordId === recordId && p.randomSeed === entry.randomSeed);
+    const participant = regenerateFromRows(study, known && { ...known, sessions: [] }, recordId, entry.randomSeed, sessionRows);
+    if (participant) {
+      participants.push(applyRows(participant, sessionRows, importedAt));
+    } else {
+      unmatched.push(recordId);
+    }
+  }
+  if (unmatched.length > 0) {
+    throw new Error(
+      `No allocation reproduces the rows of ${unmatched.map(id => `#${id}`).join(', ')} from their seeds` +
+      (current ? '' : '. Import the CSV into the study it was exported from, or use a JSON export.')
+    );
+  }
+
+  const lastRecordId = Math.max(current?.lastRecordId ?? 0, ...participants.map(p => p.recordId));
+  const data = updateSummary({ ...study, lastRecordId, participants });
+  const notes = [
+    'CSV exports don\'t include session schedules, operators or withdrawal dates; these are not restored.',
+    'Session start and end times are taken from the first and last recorded result.',
+    ...(current ? [] : ['The study settings were rebuilt from the file (pure random allocation, no master seed).']),
+  ];
+  return { format: 'csv', data: parseExperimentData(JSON.parse(JSON.stringify(data))), notes };
+}
+
+function importJSON(text: string): ImportedData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  // Exports carry an integrity report next to the data
+  if (raw && typeof raw === 'object' && 'integrity' in raw) {
+    delete (raw as { integrity?: unknown }).integrity;
+  }
+  return { format: 'json', data: parseExperimentData(raw), notes: [] };
+}
+
+function importRedcap(text: string, current: ExperimentData | null): ImportedData {
+  if (!current) {
+    throw new Error('A REDCap record list can only be aligned with an existing study; generate or import the study first');
+  }
+  const alignment = alignWithRedcap(current, parseRedcapRecords(text));
+  const list = (ids: number[]) => ids.map(id => `#${id}`).join(', ');
+  const notes = [
+    alignment.created.length > 0 ? `Enrolled from REDCap: ${list(alignment.created)}` : 'No new REDCap records to enroll',
+    ...(alignment.matched.length > 0 ? [`Already in the study: ${list(alignment.matched)}`] : []),
+    ...(alignment.notInRedcap.length > 0 ? [`Not in REDCap: ${list(alignment.notInRedcap)}`] : []),
+    ...alignment.problems,
+  ];
+  return { format: 'redcap', data: alignment.data, notes, enrolled: alignment.created };
+}
+
+// Read an exported file into validated study data whose participants all
+// match their seeds. Throws with a readable message otherwise (validation
+// problems are available through getValidationProblems).
+export function importExperimentData(fileName: string, text: string, current: ExperimentData | null): ImportedData {
+  let imported: ImportedData;
+  if (!fileName.toLowerCase().endsWith('.csv')) {
+    imported = importJSON(text);
+  } else if (parseCSV(text)[0]?.includes(CSV_COLUMNS.participantId)) {
+    imported = importCSV(text, current);
+  } else {
+    imported = importRedcap(text, current);
+  }
+
+  const failed = verifyExperimentData(imported.data).participants.filter(p => !p.passed);
+  if (failed.length > 0) {
+    throw new Error(
+      `Seed verification failed for ${failed.map(p => `#${p.recordId}`).join(', ')}: ` +
+      failed[0].mismatches[0]
+    );
+  }
+  return imported;
+}
+
+// Merge imported data into the current study: participants missing here are
+// added, and participants that differ keep the current version (their record
+// IDs are returned as kept). Only possible for the same randomization.
+export function mergeImportedData(current: ExperimentData, imported: ExperimentData): { data: ExperimentData; kept: number[] } {
+  if (current.generatedAt !== imported.generatedAt) {
+    throw new Error('The file is from a different randomization than this study, so it can only replace it');
+  }
+  // Without a common base every difference is a conflict; the current study
+  // is the preferred ("remote") side so its settings are kept too
+  const { data, conflicts } = mergeExperimentData(null, imported, current, 'remote');
+  return { data, kept: conflicts.map(c => c.recordId).filter((id): id is number => id !== null) };
+}
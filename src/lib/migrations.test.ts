@@ -0,0 +1,173 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  RawObject,
+  RawStudyData,
+  addDefaultDesign,
+  allowCompactParticipants,
+  convertPressureBalloons,
+  getSchemaVersion,
+  recordAlgorithmVersions,
+  renameBalloonPointOrder,
+  renameSphereModels,
+  splitParticipantDocuments,
+  upgradeExperimentData,
+} from './migrations';
+import { DEFAULT_STUDY_DESIGN, ExperimentData, addParticipant, generateExperimentData } from './randomization';
+import { parseExperimentData } from './validation';
+import { verifyExperimentData } from './verification';
+
+const SPHERE_NAMES: Record<string, string> = { S1: 'Sphere 1', S2: 'Sphere 2', S3: 'Sphere 3', S4: 'Sphere 4' };
+const PRESSURES: Record<string, number> = { P1: 20, P2: 40, P3: 60, P4: 80 };
+
+function toPointId(id: string): string {
+  return 'P' + id.substring(1);
+}
+
+// A study as stored before schema versioning: no design or algorithm
+// versions, balloonPointOrder, "Sphere N" ball models without colours and
+// pressure balloons with P IDs and "… mmHg" names
+function toVersion0(data: ExperimentData): RawStudyData {
+  const raw = JSON.parse(JSON.stringify(data)) as RawStudyData;
+  delete raw.schemaVersion;
+  delete raw.design;
+  delete raw.algorithmVersion;
+  for (const participant of raw.participants as RawObject[]) {
+    delete participant.algorithmVersion;
+    for (const session of participant.sessions as RawObject[]) {
+      session.balloonPointOrder = (session.balloonOrder as string[]).map(toPointId);
+      delete session.balloonOrder;
+      for (const modality of session.modalities as RawObject[]) {
+        const ballBlock = modality.ballBlock as RawObject;
+        ballBlock.models = (ballBlock.models as RawObject[]).map(m => ({ id: m.id, name: SPHERE_NAMES[m.id as string], order: m.order }));
+        ballBlock.measurements = (ballBlock.measurements as RawObject[]).map(m => {
+          const measurement: RawObject = { ...m, modelName: SPHERE_NAMES[m.modelId as string] };
+          delete measurement.color;
+          return measurement;
+        });
+        const balloonBlock = modality.balloonBlock as RawObject;
+        balloonBlock.models = (balloonBlock.models as RawObject[]).map(m => {
+          const id = toPointId(m.id as string);
+          return { id, pressure: PRESSURES[id], order: m.order };
+        });
+        balloonBlock.measurements = (balloonBlock.measurements as RawObject[]).map(m => {
+          const modelId = toPointId(m.modelId as string);
+          return { ...m, modelId, modelName: `${PRESSURES[modelId]} mmHg` };
+        });
+      }
+    }
+  }
+  return raw;
+}
+
+function firstSession(data: RawStudyData): RawObject {
+  return ((data.participants[0] as RawObject).sessions as RawObject[])[0];
+}
+
+function firstModality(data: RawStudyData): RawObject {
+  return (firstSession(data).modalities as RawObject[])[0];
+}
+
+describe('schema migrations', () => {
+  const current = generateExperimentData(3, { masterSeed: 777 });
+  const version0 = () => toVersion0(current);
+
+  it('v1 adds the default design to data without one', () => {
+    const data = version0();
+    addDefaultDesign(data);
+    assert.deepEqual(data.design, DEFAULT_STUDY_DESIGN);
+
+    const custom = { participants: [], design: { ...DEFAULT_STUDY_DESIGN, repetitions: 2 } };
+    addDefaultDesign(custom);
+    assert.equal((custom.design as typeof DEFAULT_STUDY_DESIGN).repetitions, 2);
+  });
+
+  it('v2 renames balloonPointOrder to balloonOrder with B IDs', () => {
+    const data = version0();
+    renameBalloonPointOrder(data);
+    const session = firstSession(data);
+    assert.equal(session.balloonPointOrder, undefined);
+    assert.deepEqual(session.balloonOrder, current.participants[0].sessions[0].balloonOrder);
+  });
+
+  it('v3 renames sphere models to colours', () => {
+    const data = version0();
+    renameSphereModels(data);
+    const ballBlock = firstModality(data).ballBlock as RawObject;
+    const expected = current.participants[0].sessions[0].modalities[0].ballBlock;
+    assert.deepEqual(ballBlock.models, expected.models);
+    assert.deepEqual(ballBlock.measurements, expected.measurements);
+  });
+
+  it('v3 colours named ball models by their ID', () => {
+    const data = { participants: [{ sessions: [{ modalities: [{ ballBlock: {
+      models: [{ id: 'S2', name: 'Soft', order: 1 }, { id: 'S9', name: 'Extra', order: 2 }],
+      measurements: [],
+    } }] }] }] };
+    renameSphereModels(data);
+    assert.deepEqual(data.participants[0].sessions[0].modalities[0].ballBlock.models, [
+      { id: 'S2', name: 'Soft', order: 1, color: '#22C55E' },
+      { id: 'S9', name: 'Extra', order: 2, color: '#888888' },
+    ]);
+  });
+
+  it('v4 converts pressure balloons with P IDs and mmHg names to named balloons', () => {
+    const data = version0();
+    convertPressureBalloons(data);
+    const balloonBlock = firstModality(data).balloonBlock as RawObject;
+    const expected = current.participants[0].sessions[0].modalities[0].balloonBlock;
+    assert.deepEqual(balloonBlock.models, expected.models);
+    assert.deepEqual(balloonBlock.measurements, expected.measurements);
+  });
+
+  it('v5 infers the algorithm version that reproduces each participant', () => {
+    const olderVersion = addParticipant({ ...current, algorithmVersion: 1 });
+    const data = JSON.parse(JSON.stringify(olderVersion)) as RawStudyData;
+    delete data.algorithmVersion;
+    for (const participant of data.participants as RawObject[]) {
+      delete participant.algorithmVersion;
+    }
+    recordAlgorithmVersions(data);
+    assert.deepEqual((data.participants as RawObject[]).map(p => p.algorithmVersion), [2, 2, 2, 1]);
+    assert.equal(data.algorithmVersion, 2);
+  });
+
+  it('v6 and v7 only change the schema version', () => {
+    const data = JSON.parse(JSON.stringify(current)) as RawStudyData;
+    splitParticipantDocuments();
+    allowCompactParticipants();
+    assert.deepEqual(data, JSON.parse(JSON.stringify(current)));
+  });
+
+  it('upgrades version 0 data to the data the generator produces', () => {
+    const { data, applied } = upgradeExperimentData(version0());
+    assert.deepEqual(applied, MIGRATIONS);
+    assert.deepEqual(data.migrationLog?.map(m => m.version), MIGRATIONS.map(m => m.version));
+    assert.equal(data.schemaVersion, CURRENT_SCHEMA_VERSION);
+
+    const { migrationLog, ...upgraded } = data;
+    assert.ok(migrationLog);
+    assert.deepEqual(upgraded, current);
+    assert.ok(verifyExperimentData(parseExperimentData(version0())).passed);
+  });
+
+  it('applies no migrations to current data', () => {
+    const { applied, data } = upgradeExperimentData(JSON.parse(JSON.stringify(current)));
+    assert.deepEqual(applied, []);
+    assert.equal(data.migrationLog, undefined);
+  });
+
+  it('refuses data of a newer schema', () => {
+    const newer = { ...JSON.parse(JSON.stringify(current)), schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+    assert.throws(() => upgradeExperimentData(newer), /only supports up to version/);
+    assert.throws(() => parseExperimentData(newer), /only supports up to version/);
+  });
+
+  it('refuses data without a participants list', () => {
+    assert.throws(() => upgradeExperimentData({ generatedAt: '2024-01-01' }), /no participants list/);
+    assert.throws(() => upgradeExperimentData(null), /no participants list/);
+    assert.equal(getSchemaVersion(null), 0);
+  });
+});
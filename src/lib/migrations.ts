@@ -0,0 +1,217 @@
+/**
+ * Schema Migrations
+ *
+ * Stored study data carries a schemaVersion (data from before versioning
+ * counts as version 0). Loading runs every migration newer than the stored
+ * version, in order, and records each step in the data's migration log.
+ * Data from a newer schema than this app knows is refused rather than
+ * guessed at.
+ *
+ * Each migration takes raw stored data of the previous version and updates
+ * it in place.
+ */
+
+import {
+  ExperimentData,
+  Participant,
+  DEFAULT_STUDY_DESIGN,
+  CURRENT_ALGORITHM_VERSION,
+  inferAlgorithmVersion,
+} from './randomization';
+
+// Stored data of any schema version, as read from JSON
+export type RawObject = Record<string, unknown>;
+
+export interface RawStudyData extends RawObject {
+  participants: unknown[];
+}
+
+export interface Migration {
+  version: number; // Schema version the data has after this migration
+  description: string;
+  migrate: (data: RawStudyData) => void;
+}
+
+export interface MigrationLogEntry {
+  version: number;
+  description: string;
+  migratedAt: string;
+}
+
+function isRawObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The objects in a list; anything else is left for validation to report
+function objectsIn(list: unknown): RawObject[] {
+  return Array.isArray(list) ? list.filter(isRawObject) : [];
+}
+
+// Map the objects in a list, keeping anything else as it is
+function mapObjects(list: unknown, map: (item: RawObject) => RawObject): unknown {
+  return Array.isArray(list) ? list.map(item => (isRawObject(item) ? map(item) : item)) : list;
+}
+
+function sessionsOf(data: RawStudyData): RawObject[] {
+  return objectsIn(data.participants).flatMap(participant => objectsIn(participant.sessions));
+}
+
+function modalityBlocksOf(data: RawStudyData): RawObject[] {
+  return sessionsOf(data).flatMap(session => objectsIn(session.modalities));
+}
+
+// Pressure point IDs (P1–P4) became balloon IDs (B1–B4)
+function toBalloonId(id: unknown): unknown {
+  return typeof id === 'string' && id.startsWith('P') ? 'B' + id.substring(1) : id;
+}
+
+// Version 1: data generated before the study design was configurable used
+// the default design
+export function addDefaultDesign(data: RawStudyData): void {
+  if (!data.design) {
+    data.design = DEFAULT_STUDY_DESIGN;
+  }
+}
+
+// Version 2: balloonPointOrder with P1–P4 IDs became balloonOrder with B1–B4
+export function renameBalloonPointOrder(data: RawStudyData): void {
+  for (const session of sessionsOf(data)) {
+    if (Array.isArray(session.balloonPointOrder) && !session.balloonOrder) {
+      session.balloonOrder = session.balloonPointOrder.map(toBalloonId);
+      delete session.balloonPointOrder;
+    }
+  }
+}
+
+const SPHERE_COLORS = new Map([
+  ['Sphere 1', { name: 'Yellow', color: '#EAB308' }],
+  ['Sphere 2', { name: 'Green', color: '#22C55E' }],
+  ['Sphere 3', { name: 'Red', color: '#EF4444' }],
+  ['Sphere 4', { name: 'Blue', color: '#3B82F6' }],
+]);
+
+const DEFAULT_SPHERE_COLORS = new Map([['1', '#EAB308'], ['2', '#22C55E'], ['3', '#EF4444'], ['4', '#3B82F6']]);
+
+function getSphereColor(name: unknown): { name: string; color: string } | undefined {
+  return typeof name === 'string' ? SPHERE_COLORS.get(name) : undefined;
+}
+
+// Version 3: "Sphere N" ball models became colour names with a colour
+export function renameSphereModels(data: RawStudyData): void {
+  for (const modality of modalityBlocksOf(data)) {
+    const ballBlock = modality.ballBlock;
+    if (!isRawObject(ballBlock)) continue;
+
+    ballBlock.models = mapObjects(ballBlock.models, m => {
+      const colorInfo = getSphereColor(m.name);
+      if (colorInfo) {
+        return { id: m.id, name: colorInfo.name, color: colorInfo.color, order: m.order };
+      }
+      // Named models without a colour get one based on their ID
+      if (!m.color) {
+        const number = typeof m.id === 'string' ? m.id.substring(1) : '';
+        return { ...m, color: DEFAULT_SPHERE_COLORS.get(number) ?? '#888888' };
+      }
+      return m;
+    });
+
+    ballBlock.measurements = mapObjects(ballBlock.measurements, m => {
+      const colorInfo = getSphereColor(m.modelName);
+      return colorInfo ? { ...m, modelName: colorInfo.name, color: colorInfo.color } : m;
+    });
+  }
+}
+
+// Version 4: pressure-based balloon models (P IDs, "… mmHg" names) became
+// named balloons with B IDs
+export function convertPressureBalloons(data: RawStudyData): void {
+  const toBalloonName = (id: unknown) => `Balloon ${String(id).substring(1)}`;
+
+  for (const modality of modalityBlocksOf(data)) {
+    const balloonBlock = modality.balloonBlock;
+    if (!isRawObject(balloonBlock)) continue;
+
+    balloonBlock.models = mapObjects(balloonBlock.models, m => {
+      const id = toBalloonId(m.id);
+      if ('pressure' in m && !('name' in m)) {
+        return { id, name: toBalloonName(id), order: m.order };
+      }
+      return { ...m, id };
+    });
+
+    balloonBlock.measurements = mapObjects(balloonBlock.measurements, m => {
+      const modelId = toBalloonId(m.modelId);
+      const modelName = typeof m.modelName === 'string' && m.modelName.includes('mmHg') ? toBalloonName(modelId) : m.modelName;
+      return { ...m, modelId, modelName };
+    });
+  }
+}
+
+// Version 5: data stored before algorithm versions were recorded; find the
+// generator version that reproduces each participant. The earlier
+// migrations have brought the data to the shape the generator works with.
+export function recordAlgorithmVersions(data: RawStudyData): void {
+  const study = data as unknown as ExperimentData;
+  const participants = objectsIn(data.participants);
+  for (const participant of participants) {
+    if (participant.algorithmVersion === undefined) {
+      participant.algorithmVersion = inferAlgorithmVersion(study, participant as unknown as Participant);
+    }
+  }
+  if (data.algorithmVersion === undefined) {
+    const versions = participants.map(p => p.algorithmVersion).filter((v): v is number => typeof v === 'number');
+    data.algorithmVersion = versions.length > 0 ? Math.max(...versions) : CURRENT_ALGORITHM_VERSION;
+  }
+}
+
+// Version 6: participants moved from the study document into documents of
+// their own. The data itself is unchanged; the database functions convert the
+// stored layout (see studyDocuments.ts), and the version keeps older app
+// versions from reading a study without its participants.
+export function splitParticipantDocuments(): void {}
+
+// Version 7: participants may be stored in compact form, without the
+// sessions that can be regenerated from the seed (see compactStorage.ts).
+// Again only the version changes, so older app versions refuse such data.
+export function allowCompactParticipants(): void {}
+
+export const MIGRATIONS: Migration[] = [
+  { version: 1, description: 'Add the default study design', migrate: addDefaultDesign },
+  { version: 2, description: 'Rename balloonPointOrder to balloonOrder with B IDs', migrate: renameBalloonPointOrder },
+  { version: 3, description: 'Rename sphere models to colours', migrate: renameSphereModels },
+  { version: 4, description: 'Convert pressure-based balloon models to named balloons', migrate: convertPressureBalloons },
+  { version: 5, description: 'Record the generator algorithm version of each participant', migrate: recordAlgorithmVersions },
+  { version: 6, description: 'Store participants as separate documents', migrate: splitParticipantDocuments },
+  { version: 7, description: 'Allow compact participant storage', migrate: allowCompactParticipants },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(data: unknown): number {
+  return isRawObject(data) && typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+}
+
+// Bring raw stored data up to the current schema, recording each migration
+// in the data's migration log. Returns the migrations applied (none when the
+// data is current); throws for a newer schema.
+export function upgradeExperimentData(raw: unknown): { data: ExperimentData; applied: Migration[] } {
+  const version = getSchemaVersion(raw);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `This study uses data schema version ${version}, but this app only supports up to version ${CURRENT_SCHEMA_VERSION}. Update the app to open it.`
+    );
+  }
+  if (!isRawObject(raw) || !Array.isArray(raw.participants)) {
+    throw new Error('Stored study data has no participants list');
+  }
+
+  const data = raw as RawStudyData;
+  const applied = MIGRATIONS.filter(m => m.version > version);
+  for (const migration of applied) {
+    migration.migrate(data);
+    const log: MigrationLogEntry = { version: migration.version, description: migration.description, migratedAt: new Date().toISOString() };
+    data.migrationLog = [...(Array.isArray(data.migrationLog) ? data.migrationLog : []), log];
+  }
+  data.schemaVersion = CURRENT_SCHEMA_VERSION;
+  return { data: data as unknown as ExperimentData, applied };
+}
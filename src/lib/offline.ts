@@ -0,0 +1,245 @@
+/**
+ * Offline Storage
+ *
+ * Keeps each study in IndexedDB so the app works without a connection. The
+ * 'studies' store holds the version last synced with the database; the 'queue'
+ * store holds the local changes not saved to the database yet, as one entry
+ * per study. The entry records the synced version the first change was made
+ * on, so it can be merged with the server copy once the connection returns;
+ * later changes only replace its data. The 'audit' store holds audit entries
+ * not written to the database yet.
+ */
+
+import type { AuditEntry } from './audit';
+import { ExperimentData } from './randomization';
+import { isSameData } from './sync';
+import { parseExperimentData } from './validation';
+
+const DB_NAME = 'compressibility-offline';
+const DB_VERSION = 2;
+const STUDIES_STORE = 'studies';
+const QUEUE_STORE = 'queue';
+const AUDIT_STORE = 'audit';
+
+export interface PendingChange {
+  id?: number;
+  studyId: string;
+  base: ExperimentData | null; // Synced version the change was made on
+  data: ExperimentData;
+  changeCount?: number; // Local edits merged into this entry
+  queuedAt: string;
+}
+
+export interface QueuedAuditEntry {
+  id: string; // Document ID of the entry in the audit collection
+  studyId: string;
+  entry: AuditEntry;
+}
+
+export interface OfflineState {
+  synced: ExperimentData | null; // Last version known to be on the server
+  local: ExperimentData | null; // Latest local version, including pending changes
+  pendingCount: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STUDIES_STORE)) {
+          db.createObjectStore(STUDIES_STORE, { keyPath: 'studyId' });
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          const queue = db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+          queue.createIndex('studyId', 'studyId');
+        }
+        if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+          const audit = db.createObjectStore(AUDIT_STORE, { keyPath: 'id' });
+          audit.createIndex('studyId', 'studyId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+function isAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Queue entries of one study, oldest first (older versions of the app added
+// one entry per change)
+async function getPendingChanges(queue: IDBObjectStore, studyId: string): Promise<PendingChange[]> {
+  return promisify(queue.index('studyId').getAll(studyId) as IDBRequest<PendingChange[]>)
+    .then(changes => changes.sort((a, b) => (a.id ?? 0) - (b.id ?? 0)));
+}
+
+function countChanges(changes: PendingChange[]): number {
+  return changes.reduce((sum, change) => sum + (change.changeCount ?? 1), 0);
+}
+
+function upgrade(data: ExperimentData | null): ExperimentData | null {
+  return data && parseExperimentData(data);
+}
+
+// Load the local copy of a study, upgraded to the current schema. A copy
+// that can't be read is skipped; one of a newer schema or that fails
+// validation throws.
+export async function loadOfflineState(studyId: string): Promise<OfflineState> {
+  const empty: OfflineState = { synced: null, local: null, pendingCount: 0 };
+  if (!isAvailable()) return empty;
+
+  let stored: { studyId: string; data: ExperimentData } | undefined;
+  let changes: PendingChange[];
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([STUDIES_STORE, QUEUE_STORE], 'readonly');
+    stored = await promisify(transaction.objectStore(STUDIES_STORE).get(studyId));
+    changes = await getPendingChanges(transaction.objectStore(QUEUE_STORE), studyId);
+  } catch (error) {
+    console.error('Error reading offline copy:', error);
+    return empty;
+  }
+
+  if (changes.length > 0) {
+    // Changes chain onto each other, so the first one's base is the merge base
+    return {
+      synced: upgrade(changes[0].base),
+      local: upgrade(changes[changes.length - 1].data),
+      pendingCount: countChanges(changes),
+    };
+  }
+  const synced = upgrade(stored?.data ?? null);
+  return { synced, local: synced, pendingCount: 0 };
+}
+
+// Merge a local change into the study's queue entry: the first pending
+// change's base is kept and the data replaced, so the queue holds at most two
+// copies of a study however many edits are made offline. The change's audit
+// entries are queued in the same transaction. Returns the number of pending
+// changes.
+export async function queueChange(
+  studyId: string,
+  base: ExperimentData | null,
+  data: ExperimentData,
+  auditEntries: QueuedAuditEntry[] = []
+): Promise<number> {
+  if (!isAvailable()) return 0;
+  const db = await openDatabase();
+  const transaction = db.transaction([QUEUE_STORE, AUDIT_STORE], 'readwrite');
+  for (const entry of auditEntries) {
+    transaction.objectStore(AUDIT_STORE).put(entry);
+  }
+  const queue = transaction.objectStore(QUEUE_STORE);
+  const changes = await getPendingChanges(queue, studyId);
+  const count = countChanges(changes) + 1;
+  const [first, ...rest] = changes;
+  for (const change of rest) {
+    queue.delete(change.id!);
+  }
+  const change: PendingChange = first
+    ? { ...first, data, changeCount: count }
+    : { studyId, base, data, changeCount: count, queuedAt: new Date().toISOString() };
+  queue.put(change);
+  await transactionDone(transaction);
+  return count;
+}
+
+// Record the result of a sync: the synced version, and the local version if
+// it still has changes the server doesn't. Replaces the study's queue.
+// Returns the number of pending changes.
+export async function storeSyncState(
+  studyId: string,
+  synced: ExperimentData,
+  local: ExperimentData | null
+): Promise<number> {
+  if (!isAvailable()) return 0;
+  const db = await openDatabase();
+  const transaction = db.transaction([STUDIES_STORE, QUEUE_STORE], 'readwrite');
+  transaction.objectStore(STUDIES_STORE).put({ studyId, data: synced });
+  const queue = transaction.objectStore(QUEUE_STORE);
+  const changes = await getPendingChanges(queue, studyId);
+  for (const change of changes) {
+    queue.delete(change.id!);
+  }
+  const hasChanges = local !== null && !isSameData(local, synced);
+  if (hasChanges) {
+    queue.add({ studyId, base: synced, data: local, changeCount: 1, queuedAt: new Date().toISOString() } satisfies PendingChange);
+  }
+  await transactionDone(transaction);
+  return hasChanges ? 1 : 0;
+}
+
+// Forget the local copy of a study and its pending changes
+export async function clearOfflineState(studyId: string): Promise<void> {
+  if (!isAvailable()) return;
+  const db = await openDatabase();
+  const transaction = db.transaction([STUDIES_STORE, QUEUE_STORE], 'readwrite');
+  transaction.objectStore(STUDIES_STORE).delete(studyId);
+  const queue = transaction.objectStore(QUEUE_STORE);
+  const changes = await getPendingChanges(queue, studyId);
+  for (const change of changes) {
+    queue.delete(change.id!);
+  }
+  await transactionDone(transaction);
+}
+
+// Keep an audit entry until it has been written to the database
+export async function queueAuditEntry(studyId: string, id: string, entry: AuditEntry): Promise<void> {
+  if (!isAvailable()) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(AUDIT_STORE, 'readwrite');
+  transaction.objectStore(AUDIT_STORE).put({ id, studyId, entry } satisfies QueuedAuditEntry);
+  await transactionDone(transaction);
+}
+
+// Audit entries of one study not written to the database yet, oldest first
+export async function loadQueuedAuditEntries(studyId: string): Promise<QueuedAuditEntry[]> {
+  if (!isAvailable()) return [];
+  const db = await openDatabase();
+  const store = db.transaction(AUDIT_STORE, 'readonly').objectStore(AUDIT_STORE);
+  const entries = await promisify(store.index('studyId').getAll(studyId) as IDBRequest<QueuedAuditEntry[]>);
+  return entries.sort((a, b) => a.entry.timestamp.localeCompare(b.entry.timestamp));
+}
+
+export async function removeQueuedAuditEntry(id: string): Promise<void> {
+  if (!isAvailable()) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(AUDIT_STORE, 'readwrite');
+  transaction.objectStore(AUDIT_STORE).delete(id);
+  await transactionDone(transaction);
+}
+
+// Remove a study's queued audit entries that match
+export async function removeQueuedAuditEntries(studyId: string, matches: (entry: AuditEntry) => boolean): Promise<void> {
+  if (!isAvailable()) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(AUDIT_STORE, 'readwrite');
+  const store = transaction.objectStore(AUDIT_STORE);
+  const queued = await promisify(store.index('studyId').getAll(studyId) as IDBRequest<QueuedAuditEntry[]>);
+  for (const { id, entry } of queued) {
+    if (matches(entry)) store.delete(id);
+  }
+  await transactionDone(transaction);
+}
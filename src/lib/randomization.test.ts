@@ -0,0 +1,202 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_STUDY_DESIGN,
+  ExperimentData,
+  StratificationSettings,
+  addParticipant,
+  buildWilliamsDesign,
+  generateExperimentData,
+  getAllocationArms,
+  getStratumBalance,
+  isValidMasterSeed,
+  regenerateParticipant,
+  scheduleSession,
+  setSessionStatus,
+  validateStudyDesign,
+  withdrawParticipant,
+} from './randomization';
+
+// How often each ordered pair (a directly followed by b) occurs in the rows
+function countCarryover(rows: readonly (readonly unknown[])[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    for (let i = 1; i < row.length; i++) {
+      const pair = `${row[i - 1]}→${row[i]}`;
+      counts.set(pair, (counts.get(pair) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+function assertPermutation(row: readonly unknown[], items: readonly unknown[]): void {
+  assert.deepEqual([...row].sort(), [...items].sort());
+}
+
+describe('Williams design', () => {
+  for (let n = 2; n <= 7; n++) {
+    it(`balances position and first-order carryover for ${n} treatments`, () => {
+      const square = buildWilliamsDesign(n);
+      const treatments = Array.from({ length: n }, (_, i) => i);
+      const repeats = n % 2 === 0 ? 1 : 2;
+      assert.equal(square.length, n * repeats);
+
+      for (const row of square) {
+        assertPermutation(row, treatments);
+      }
+      // Every treatment appears equally often in every position
+      for (let position = 0; position < n; position++) {
+        const column = square.map(row => row[position]);
+        for (const treatment of treatments) {
+          assert.equal(column.filter(t => t === treatment).length, repeats);
+        }
+      }
+      // Every treatment follows every other one equally often, and never itself
+      const carryover = countCarryover(square);
+      assert.equal(carryover.size, n * (n - 1));
+      assert.ok([...carryover.values()].every(count => count === repeats));
+    });
+  }
+
+  it('balances every counterbalanced order after each complete block of participants', () => {
+    const data = generateExperimentData(8, { allocationMethod: 'williams', masterSeed: 90210 });
+    const ballIds = data.design.modelTypes.find(t => t.id === 'ball')!.models.map(m => m.id);
+    const modalityIds = data.design.modalities.map(m => m.id);
+
+    assert.deepEqual(data.participants.map(p => p.allocationIndex), [0, 1, 2, 3, 4, 5, 6, 7]);
+    for (const block of [data.participants.slice(0, 4), data.participants.slice(4, 8)]) {
+      const sphereOrders = block.map(p => p.sessions[0].ballSphereOrder);
+      for (const order of sphereOrders) {
+        assertPermutation(order, ballIds);
+      }
+      for (let position = 0; position < ballIds.length; position++) {
+        assertPermutation(sphereOrders.map(order => order[position]), ballIds);
+      }
+      const carryover = countCarryover(sphereOrders);
+      assert.equal(carryover.size, ballIds.length * (ballIds.length - 1));
+      assert.ok([...carryover.values()].every(count => count === 1));
+
+      // Two modalities: each comes first in half of the block
+      const firstModalities = block.map(p => p.sessions[0].modalityOrder[0]);
+      for (const modality of modalityIds) {
+        assert.equal(firstModalities.filter(m => m === modality).length, 2);
+      }
+    }
+  });
+
+  it('reproduces the same allocation from the same master seed', () => {
+    const a = generateExperimentData(6, { allocationMethod: 'williams', masterSeed: 5 });
+    const b = generateExperimentData(6, { allocationMethod: 'williams', masterSeed: 5 });
+    assert.deepEqual(a.participants, b.participants);
+  });
+});
+
+describe('regenerating a participant', () => {
+  it('draws a new seed and keeps the withdrawal and session bookings', () => {
+    let data = generateExperimentData(2, { masterSeed: 606 });
+    data = scheduleSession(data, 1, 2, { plannedAt: '2030-03-04T09:00:00.000Z', operator: 'Dr. Meier' });
+    data = setSessionStatus(data, 1, 3, 'missed');
+    data = withdrawParticipant(data, 1, 'Moved away');
+
+    const regenerated = regenerateParticipant(data, 1);
+    const [before, after] = [data.participants[0], regenerated.participants[0]];
+    assert.notEqual(after.randomSeed, before.randomSeed);
+    assert.equal(after.withdrawnAt, before.withdrawnAt);
+    assert.equal(after.withdrawalReason, 'Moved away');
+    assert.equal(after.sessions[1].plannedAt, '2030-03-04T09:00:00.000Z');
+    assert.equal(after.sessions[1].operator, 'Dr. Meier');
+    assert.equal(after.sessions[2].status, 'missed');
+    assert.deepEqual(regenerated.summary, data.summary);
+  });
+});
+
+describe('study design', () => {
+  it('only accepts hex model colors', () => {
+    const withColor = (color: string) => ({
+      ...DEFAULT_STUDY_DESIGN,
+      modelTypes: DEFAULT_STUDY_DESIGN.modelTypes.map(t => ({ ...t, models: t.models.map((m, idx) => idx === 0 ? { ...m, color } : m) })),
+    });
+    assert.doesNotThrow(() => validateStudyDesign(withColor('#a1B2c3')));
+    for (const color of ['red', '#abc', 'rgb(0, 0, 0)', '#12345G']) {
+      assert.throws(() => validateStudyDesign(withColor(color)), /must be a hex color like #3B82F6/);
+    }
+  });
+});
+
+describe('master seed', () => {
+  it('accepts the 32-bit seeds the generator distinguishes', () => {
+    for (const seed of [0, 1, 2 ** 32 - 1]) {
+      assert.ok(isValidMasterSeed(seed));
+    }
+    for (const seed of [-1, 1.5, 2 ** 32, Number.MAX_SAFE_INTEGER, NaN]) {
+      assert.equal(isValidMasterSeed(seed), false);
+    }
+    assert.throws(() => generateExperimentData(1, { masterSeed: 2 ** 32 + 5 }), /^Error: Master seed must be a whole number from 0 to 4294967295$/);
+  });
+});
+
+describe('stratified block randomization', () => {
+  const stratification: StratificationSettings = {
+    factors: [
+      { id: 'role', label: 'Role', levels: ['Clinician', 'Student'] },
+      { id: 'handedness', label: 'Handedness', levels: ['Right', 'Left'] },
+    ],
+    blockSize: 4,
+  };
+
+  // Enroll participants of alternating strata
+  function enroll(strata: Record<string, string>[], masterSeed = 31337): ExperimentData {
+    let data = generateExperimentData(0, { allocationMethod: 'stratified', stratification, masterSeed });
+    for (const participantStrata of strata) {
+      data = addParticipant(data, participantStrata);
+    }
+    return data;
+  }
+
+  const clinician = { role: 'Clinician', handedness: 'Right' };
+  const student = { role: 'Student', handedness: 'Left' };
+
+  it('assigns every arm once in each complete block of a stratum', () => {
+    const data = enroll(Array.from({ length: 16 }, (_, i) => (i % 2 === 0 ? clinician : student)));
+    const arms = getAllocationArms(data.design);
+    assert.equal(arms.length, 4);
+
+    for (const strata of [clinician, student]) {
+      const members = data.participants.filter(p => p.strata?.role === strata.role);
+      assert.deepEqual(members.map(p => p.allocationIndex), [0, 1, 2, 3, 4, 5, 6, 7]);
+      for (const block of [members.slice(0, 4), members.slice(4, 8)]) {
+        const assigned = block.map(p => `${p.sessions[0].modalityOrder[0]}/${p.sessions[0].modelTypeOrder[0]}`);
+        assert.deepEqual(assigned.sort(), arms.map(arm => `${arm.modalityFirst}/${arm.modelTypeFirst}`).sort());
+      }
+    }
+
+    const balance = getStratumBalance(data);
+    assert.deepEqual(balance.map(b => b.stratum), ['Clinician / Right', 'Student / Left']);
+    for (const entry of balance) {
+      assert.equal(entry.participants, 8);
+      assert.deepEqual(entry.armCounts, [2, 2, 2, 2]);
+    }
+  });
+
+  it('keeps an incomplete block within one of balance', () => {
+    const data = enroll(Array.from({ length: 6 }, () => clinician));
+    const [entry] = getStratumBalance(data);
+    assert.equal(entry.participants, 6);
+    assert.ok(Math.max(...entry.armCounts) - Math.min(...entry.armCounts) <= 1);
+  });
+
+  it('reports participants that match no arm instead of counting them', () => {
+    const data: ExperimentData = JSON.parse(JSON.stringify(enroll([clinician, clinician])));
+    data.participants[1].sessions[0].modalityOrder = [];
+    const [entry] = getStratumBalance(data);
+    assert.equal(entry.participants, 2);
+    assert.equal(entry.armCounts.reduce((sum, count) => sum + count, 0), 1);
+    assert.deepEqual(entry.unassigned, [2]);
+  });
+
+  it('requires the strata of every participant', () => {
+    const data = enroll([]);
+    assert.throws(() => addParticipant(data), /requires the participant's strata/);
+    assert.throws(() => addParticipant(data, { role: 'Nurse', handedness: 'Right' }), /unknown role level/);
+  });
+});
@@ -1,73 +1,247 @@
 /**
  * Experiment Randomization Logic
  *
- * Based on EXPERIMENT_DESIGN.md:
+ * Based on EXPERIMENT_DESIGN.md (default study design):
  * - 3 identical sessions per participant (randomized ONCE, copied to all)
  * - 2 modalities: Ultrasound, Palpation (randomized order)
  * - 2 model types per modality: Ball Models (4 spheres), Balloon Model (4 pressure points)
  * - Cycle structure: 5 repetitions of all 4 models
  * - 80 measurements per session = 240 total per participant
+ *
+ * Session count, repetitions and the models per type come from the StudyDesign
+ * stored with the experiment data, so other studies can reuse the same engine.
  */
 
+import type { IntegrityReport } from './verification';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { parseExperimentData } from './validation';
+import type { MigrationLogEntry } from './migrations';
+
+export type Modality = 'ultrasound' | 'palpation';
+export type ModelType = 'ball' | 'balloon';
+
+export interface ModelDefinition {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+export interface ModalityDefinition {
+  id: Modality;
+  label: string;
+  reshufflePerRepetition: boolean; // Palpation: new model order for every repetition
+}
+
+export interface ModelTypeDefinition {
+  id: ModelType;
+  label: string;
+  models: ModelDefinition[];
+}
+
+export interface StudyDesign {
+  modalities: ModalityDefinition[];
+  modelTypes: ModelTypeDefinition[];
+  repetitions: number;
+  sessionsPerParticipant: number;
+  minutesPerSession: number;
+  minDaysBetweenSessions?: number; // Missing means sessions only need to be in order
+}
+
 export interface BallModel {
   id: string;
   name: string;
-  color: string;
+  color?: string;
   order: number;
 }
 
 export interface BalloonModel {
   id: string;
   name: string;
+  color?: string;
   order: number;
 }
 
 export interface ModelTypeBlock {
-  modelType: 'ball' | 'balloon';
+  modelType: ModelType;
   order: number;
   models: BallModel[] | BalloonModel[];
   measurements: Measurement[];
 }
 
 export interface Measurement {
-  repetition: number; // 1-5
-  modelOrder: number; // 1-4
+  repetition: number; // 1..design.repetitions
+  modelOrder: number; // 1..number of models in the block
   modelId: string;
   modelName: string;
   color?: string; // For ball models (sphere colors)
+  result?: MeasurementResult; // Missing until the operator records it
+}
+
+// What the operator recorded for one planned measurement
+export interface MeasurementResult {
+  rating?: number; // Perceived compressibility, see COMPRESSIBILITY_RATINGS
+  identifiedModelId?: string; // Model the participant believes they examined
+  note?: string;
+  skipped?: boolean;
+  startedAt?: string; // When the measurement was shown in the session runner
+  recordedAt: string; // When the result was first entered (end of the measurement)
+}
+
+// Result fields as entered by the operator; timestamps are stamped on save
+export type MeasurementInput = Omit<MeasurementResult, 'recordedAt'>;
+
+// Perceived compressibility scale (1 = very soft, 5 = very hard)
+export const COMPRESSIBILITY_RATINGS = [1, 2, 3, 4, 5];
+
+// Identifies one planned measurement within a participant
+export interface MeasurementKey {
+  sessionNumber: number;
+  modality: Modality;
+  modelType: ModelType;
+  repetition: number;
+  modelOrder: number;
 }
 
 export interface ModalityBlock {
-  modality: 'ultrasound' | 'palpation';
+  modality: Modality;
   order: number;
   ballBlock: ModelTypeBlock;
   balloonBlock: ModelTypeBlock;
 }
 
 export interface Session {
-  sessionNumber: 1 | 2 | 3;
-  modalityOrder: ['ultrasound', 'palpation'] | ['palpation', 'ultrasound'];
-  modelTypeOrder: ['ball', 'balloon'] | ['balloon', 'ball'];
+  sessionNumber: number;
+  modalityOrder: Modality[];
+  modelTypeOrder: ModelType[];
   ballSphereOrder: string[];
   balloonOrder: string[];
   modalities: ModalityBlock[];
   totalMeasurements: number;
+  status?: SessionStatus; // Missing means 'scheduled'
+  startedAt?: string; // Set once the session has begun; participants with a started session can't be deleted
+  completedAt?: string;
+  currentStep?: number; // Index into getSessionSteps where the session runner left off
+  plannedAt?: string; // Booked start of the session
+  operator?: string;
+}
+
+// Lifecycle of a session; participants additionally can be 'withdrawn'
+export type SessionStatus = 'scheduled' | 'in_progress' | 'completed' | 'missed';
+export type ParticipantStatus = SessionStatus | 'withdrawn';
+
+export const SESSION_STATUSES: SessionStatus[] = ['scheduled', 'in_progress', 'completed', 'missed'];
+
+// Human-readable name of a session or participant status
+export function describeStatus(status: ParticipantStatus): string {
+  switch (status) {
+    case 'in_progress':
+      return 'In progress';
+    case 'completed':
+      return 'Completed';
+    case 'missed':
+      return 'Missed';
+    case 'withdrawn':
+      return 'Withdrawn';
+    default:
+      return 'Scheduled';
+  }
 }
 
 export interface Participant {
   recordId: number;
   randomSeed: number;
-  sessions: [Session, Session, Session];
+  algorithmVersion?: AlgorithmVersion; // Generator version the sessions were created with
+  allocationIndex?: number; // Slot in the counterbalancing sequence ('williams') or within the stratum ('stratified')
+  strata?: Strata; // Covariate levels ('stratified' method only)
+  withdrawnAt?: string; // Withdrawn participants keep their allocation but are excluded from active counts
+  withdrawalReason?: string;
+  sessions: Session[];
 }
 
+// Covariate level per stratification factor ID, e.g. { role: 'Clinician' }
+export type Strata = Record<string, string>;
+
+export interface StratificationFactor {
+  id: string;
+  label: string;
+  levels: string[];
+}
+
+export interface StratificationSettings {
+  factors: StratificationFactor[];
+  blockSize: number; // Must be a multiple of the number of arms
+}
+
+// 'random': independent shuffles per participant
+// 'williams': orders assigned from balanced Latin squares (Williams designs) across participants
+// 'stratified': permuted blocks of modality-first × model-type-first arms within each stratum
+export type AllocationMethod = 'random' | 'williams' | 'stratified';
+
+// Randomization algorithm versions. A seed only reproduces its sessions when
+// replayed through the same sequence of random() calls, so any change to the
+// generator gets a new version and old versions stay callable.
+// - 1: Palpation used the same fixed cycle as Ultrasound
+// - 2: Modalities with reshufflePerRepetition (Palpation) reshuffle every repetition
+export type AlgorithmVersion = 1 | 2;
+
+export const CURRENT_ALGORITHM_VERSION: AlgorithmVersion = 2;
+
+export const ALGORITHM_VERSIONS: Record<AlgorithmVersion, { description: string; reshufflePerRepetition: boolean }> = {
+  1: { description: 'Fixed model order across repetitions', reshufflePerRepetition: false },
+  2: { description: 'Per-repetition reshuffle for Palpation', reshufflePerRepetition: true },
+};
+
+function getAlgorithm(version: number) {
+  const algorithm = ALGORITHM_VERSIONS[version as AlgorithmVersion];
+  if (!algorithm) {
+    throw new Error(`Unknown randomization algorithm version ${version}`);
+  }
+  return algorithm;
+}
+
+// Human-readable name of an allocation method
+export function describeAllocationMethod(method: AllocationMethod | undefined): string {
+  switch (method) {
+    case 'williams':
+      return 'Counterbalanced (Williams design)';
+    case 'stratified':
+      return 'Stratified permuted blocks';
+    default:
+      return 'Pure random';
+  }
+}
+
+export interface ParticipantOrders {
+  modalityOrder: Modality[];
+  modelTypeOrder: ModelType[];
+  ballSphereOrder: string[];
+  balloonOrder: string[];
+}
+
+// How participants are stored: 'compact' keeps only what can't be
+// regenerated from the seed (see compactStorage.ts)
+export type StorageFormat = 'expanded' | 'compact';
+
 export interface ExperimentData {
+  schemaVersion?: number; // Storage format version, see migrations.ts
+  storageFormat?: StorageFormat; // Missing means 'expanded'
+  migrationLog?: MigrationLogEntry[]; // Schema upgrades applied to this data
   generatedAt: string;
+  design: StudyDesign;
+  masterSeed?: number; // Study-level seed all participant seeds are drawn from
+  seedsIssued?: number; // Number of participant seeds drawn from masterSeed so far
+  allocationMethod?: AllocationMethod; // Missing means 'random'
+  algorithmVersion?: AlgorithmVersion; // Generator version for new participants of this study
+  stratification?: StratificationSettings; // 'stratified' method only
+  lastRecordId?: number; // Highest record ID ever issued; IDs are never reused or renumbered
   participants: Participant[];
   summary: {
-    totalParticipants: number;
+    totalParticipants: number; // All records, including withdrawn participants
+    activeParticipants?: number;
+    withdrawnParticipants?: number;
     measurementsPerSession: number;
     measurementsPerParticipant: number;
-    totalMeasurements: number;
+    totalMeasurements: number; // Active participants only
   };
 }
 
@@ -81,6 +255,43 @@ function createSeededRandom(seed: number) {
   };
 }
 
+// Participant seeds are drawn in [0, SEED_RANGE)
+const SEED_RANGE = 1000000;
+
+// Derive the n-th participant seed (1-based) from a study master seed.
+// Seeds are consecutive draws of the master seed's PRNG stream, so the full
+// allocation list can be re-created from the master seed and the draw count.
+export function deriveParticipantSeed(masterSeed: number, index: number): number {
+  const random = createSeededRandom(masterSeed);
+  let seed = 0;
+  for (let i = 0; i < index; i++) {
+    seed = Math.floor(random() * SEED_RANGE);
+  }
+  return seed;
+}
+
+// Mulberry32 only keeps the low 32 bits of its seed, so larger master seeds
+// would repeat the allocation of a smaller one
+export const MAX_MASTER_SEED = 0xFFFFFFFF;
+
+// Check that a value can be used as a master seed
+export function isValidMasterSeed(value: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= MAX_MASTER_SEED;
+}
+
+// Draw the next participant seed for existing data. Data without a master
+// seed (generated before master seeds existed) falls back to Math.random().
+function drawNextSeed(data: ExperimentData): { randomSeed: number; seedsIssued?: number } {
+  if (data.masterSeed === undefined) {
+    return { randomSeed: Math.floor(Math.random() * SEED_RANGE) };
+  }
+  const seedsIssued = (data.seedsIssued ?? data.participants.length) + 1;
+  return {
+    randomSeed: deriveParticipantSeed(data.masterSeed, seedsIssued),
+    seedsIssued,
+  };
+}
+
 // Fisher-Yates shuffle with seeded random
 function shuffleArray<T>(array: T[], random: () => number): T[] {
   const shuffled = [...array];
@@ -91,28 +302,284 @@ function shuffleArray<T>(array: T[], random: () => number): T[] {
   return shuffled;
 }
 
-// Ball sphere definitions with color names
-const BALL_SPHERES = [
-  { id: 'S1', name: 'Yellow', color: '#EAB308' },
-  { id: 'S2', name: 'Green', color: '#22C55E' },
-  { id: 'S3', name: 'Red', color: '#EF4444' },
-  { id: 'S4', name: 'Blue', color: '#3B82F6' },
-];
+// Default design of the Ultrasonographic Compressibility Validation Study
+export const DEFAULT_STUDY_DESIGN: StudyDesign = {
+  modalities: [
+    { id: 'ultrasound', label: 'Ultrasound', reshufflePerRepetition: false },
+    { id: 'palpation', label: 'Palpation', reshufflePerRepetition: true },
+  ],
+  modelTypes: [
+    {
+      id: 'ball',
+      label: 'Ball Models',
+      models: [
+        { id: 'S1', name: 'Yellow', color: '#EAB308' },
+        { id: 'S2', name: 'Green', color: '#22C55E' },
+        { id: 'S3', name: 'Red', color: '#EF4444' },
+        { id: 'S4', name: 'Blue', color: '#3B82F6' },
+      ],
+    },
+    {
+      id: 'balloon',
+      label: 'Balloon Model',
+      models: [
+        { id: 'B1', name: 'Balloon 1' },
+        { id: 'B2', name: 'Balloon 2' },
+        { id: 'B3', name: 'Balloon 3' },
+        { id: 'B4', name: 'Balloon 4' },
+      ],
+    },
+  ],
+  repetitions: 5,
+  sessionsPerParticipant: 3,
+  minutesPerSession: 30,
+  minDaysBetweenSessions: 1,
+};
+
+// Look up the definition of a model type (ball/balloon) in a design
+export function getModelTypeDefinition(design: StudyDesign, modelType: ModelType): ModelTypeDefinition {
+  const definition = design.modelTypes.find(t => t.id === modelType);
+  if (!definition) {
+    throw new Error(`Study design has no "${modelType}" model type`);
+  }
+  return definition;
+}
 
-// Balloon model definitions
-const BALLOON_MODELS = [
-  { id: 'B1', name: 'Balloon 1' },
-  { id: 'B2', name: 'Balloon 2' },
-  { id: 'B3', name: 'Balloon 3' },
-  { id: 'B4', name: 'Balloon 4' },
-];
+// Validate a study design before generating randomizations from it
+// Model colors are #RRGGBB, the only form the workbook export can fill cells with
+export function isHexColor(value: string): boolean {
+  return /^#[0-9a-f]{6}$/i.test(value);
+}
+
+export function validateStudyDesign(design: StudyDesign): void {
+  if (design.modalities.length === 0) {
+    throw new Error('Study design needs at least one modality');
+  }
+  if (new Set(design.modalities.map(m => m.id)).size !== design.modalities.length) {
+    throw new Error('Study design modalities must be unique');
+  }
+  for (const modelType of ['ball', 'balloon'] as const) {
+    const definition = getModelTypeDefinition(design, modelType);
+    if (definition.models.length === 0) {
+      throw new Error(`${definition.label} need at least one model`);
+    }
+    const ids = definition.models.map(m => m.id.trim());
+    if (ids.some(id => id === '') || new Set(ids).size !== ids.length) {
+      throw new Error(`${definition.label} need unique, non-empty model IDs`);
+    }
+    const badColor = definition.models.find(m => m.color !== undefined && !isHexColor(m.color));
+    if (badColor) {
+      throw new Error(`Color of ${badColor.id} must be a hex color like #3B82F6`);
+    }
+  }
+  if (!Number.isInteger(design.repetitions) || design.repetitions < 1) {
+    throw new Error('Repetitions must be a positive whole number');
+  }
+  if (!Number.isInteger(design.sessionsPerParticipant) || design.sessionsPerParticipant < 1) {
+    throw new Error('Sessions per participant must be a positive whole number');
+  }
+  if (!(design.minutesPerSession > 0)) {
+    throw new Error('Minutes per session must be positive');
+  }
+  if (design.minDaysBetweenSessions !== undefined && !(design.minDaysBetweenSessions >= 0)) {
+    throw new Error('Minimum days between sessions cannot be negative');
+  }
+}
+
+// Number of measurements in one session: modalities × (models of every type) × repetitions
+export function getMeasurementsPerSession(design: StudyDesign): number {
+  const modelsPerModality = design.modelTypes.reduce((sum, t) => sum + t.models.length, 0);
+  return design.modalities.length * modelsPerModality * design.repetitions;
+}
+
+// Compute the summary block of ExperimentData for a design and participant count
+export function computeSummary(
+  design: StudyDesign,
+  totalParticipants: number,
+  withdrawnParticipants: number = 0
+): ExperimentData['summary'] {
+  const measurementsPerSession = getMeasurementsPerSession(design);
+  const measurementsPerParticipant = measurementsPerSession * design.sessionsPerParticipant;
+  const activeParticipants = totalParticipants - withdrawnParticipants;
+
+  return {
+    totalParticipants,
+    activeParticipants,
+    withdrawnParticipants,
+    measurementsPerSession,
+    measurementsPerParticipant,
+    totalMeasurements: measurementsPerParticipant * activeParticipants,
+  };
+}
+
+// Withdrawn participants stay in the dataset but are not counted as active
+export function isWithdrawn(participant: Participant): boolean {
+  return participant.withdrawnAt !== undefined;
+}
+
+// A participant can only be deleted (rather than withdrawn) before any session has started
+export function hasStartedSessions(participant: Participant): boolean {
+  return participant.sessions.some(s => s.startedAt !== undefined);
+}
+
+// Status of one session as shown to the operator: sessions a withdrawn
+// participant never finished count as withdrawn
+export function getSessionStatus(participant: Participant, session: Session): ParticipantStatus {
+  const status = session.status ?? 'scheduled';
+  if (isWithdrawn(participant) && status !== 'completed' && status !== 'missed') {
+    return 'withdrawn';
+  }
+  return status;
+}
+
+// Overall status of a participant, derived from their sessions
+export function getParticipantStatus(participant: Participant): ParticipantStatus {
+  if (isWithdrawn(participant)) return 'withdrawn';
+
+  const statuses = participant.sessions.map(s => s.status ?? 'scheduled');
+  if (statuses.every(s => s === 'completed')) return 'completed';
+  if (statuses.some(s => s === 'in_progress')) return 'in_progress';
+  if (statuses.every(s => s === 'scheduled')) return 'scheduled';
+  // Nothing left to run, but at least one session was missed
+  if (!statuses.includes('scheduled')) return 'missed';
+  return 'in_progress';
+}
+
+// Next session still to be run, if any
+export function getNextSession(participant: Participant): Session | undefined {
+  if (isWithdrawn(participant)) return undefined;
+  return participant.sessions.find(s => (s.status ?? 'scheduled') === 'in_progress')
+    ?? participant.sessions.find(s => (s.status ?? 'scheduled') === 'scheduled');
+}
+
+export interface StudyProgress {
+  participantsByStatus: Record<ParticipantStatus, number>;
+  completedSessions: number; // Both counted over active participants only
+  plannedSessions: number;
+  bySessionNumber: { sessionNumber: number; statuses: Record<ParticipantStatus, number> }[];
+}
+
+function emptyStatusCounts(): Record<ParticipantStatus, number> {
+  return { scheduled: 0, in_progress: 0, completed: 0, missed: 0, withdrawn: 0 };
+}
+
+// Count participants and sessions per status for the progress overview
+export function getStudyProgress(data: ExperimentData): StudyProgress {
+  const participantsByStatus = emptyStatusCounts();
+  const bySessionNumber = Array.from({ length: data.design.sessionsPerParticipant }, (_, i) => ({
+    sessionNumber: i + 1,
+    statuses: emptyStatusCounts(),
+  }));
+  let completedSessions = 0;
+  let plannedSessions = 0;
+
+  for (const participant of data.participants) {
+    participantsByStatus[getParticipantStatus(participant)]++;
+    for (const session of participant.sessions) {
+      const status = getSessionStatus(participant, session);
+      const row = bySessionNumber[session.sessionNumber - 1];
+      if (row) row.statuses[status]++;
+      if (isWithdrawn(participant)) continue;
+      plannedSessions++;
+      if (status === 'completed') completedSessions++;
+    }
+  }
+
+  return { participantsByStatus, completedSessions, plannedSessions, bySessionNumber };
+}
+
+function minutesBetween(start: string, end: string): number {
+  return (new Date(end).getTime() - new Date(start).getTime()) / 60000;
+}
+
+// Actual duration of a session in minutes, once it has been completed
+export function getSessionDuration(session: Session): number | undefined {
+  if (!session.startedAt || !session.completedAt) return undefined;
+  return minutesBetween(session.startedAt, session.completedAt);
+}
+
+// Actual duration of a modality block in minutes: from the first measurement
+// started to the last result recorded. Undefined until a result is recorded.
+export function getModalityBlockDuration(block: ModalityBlock): number | undefined {
+  const results = [...block.ballBlock.measurements, ...block.balloonBlock.measurements]
+    .map(m => m.result)
+    .filter((r): r is MeasurementResult => r !== undefined);
+  if (results.length === 0) return undefined;
+
+  const starts = results.map(r => r.startedAt ?? r.recordedAt).sort();
+  const ends = results.map(r => r.recordedAt).sort();
+  return minutesBetween(starts[0], ends[ends.length - 1]);
+}
+
+export interface LabTimeStats {
+  plannedMinutesPerSession: number;
+  timedSessions: number; // Completed sessions with both timestamps
+  averageSessionMinutes?: number;
+  averageModalityMinutes: { modality: Modality; label: string; minutes?: number; blocks: number }[];
+  remainingSessions: number; // Sessions of active participants not yet completed or missed
+  plannedRemainingMinutes: number;
+  projectedRemainingMinutes: number; // Using the actual average where known
+}
+
+// Planned vs. actual lab time, for booking the ultrasound room
+export function getLabTimeStats(data: ExperimentData): LabTimeStats {
+  const { design } = data;
+  const sessionDurations: number[] = [];
+  const modalityDurations = new Map<Modality, number[]>(design.modalities.map(m => [m.id, []]));
+  let remainingSessions = 0;
+
+  for (const participant of data.participants) {
+    for (const session of participant.sessions) {
+      const status = getSessionStatus(participant, session);
+      if (status === 'scheduled' || status === 'in_progress') remainingSessions++;
+      if (status !== 'completed') continue;
+
+      const duration = getSessionDuration(session);
+      if (duration !== undefined) sessionDurations.push(duration);
+      for (const block of session.modalities) {
+        const blockDuration = getModalityBlockDuration(block);
+        if (blockDuration !== undefined) modalityDurations.get(block.modality)?.push(blockDuration);
+      }
+    }
+  }
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+  const averageSessionMinutes = average(sessionDurations);
+
+  return {
+    plannedMinutesPerSession: design.minutesPerSession,
+    timedSessions: sessionDurations.length,
+    averageSessionMinutes,
+    averageModalityMinutes: design.modalities.map(m => ({
+      modality: m.id,
+      label: m.label,
+      minutes: average(modalityDurations.get(m.id) ?? []),
+      blocks: modalityDurations.get(m.id)?.length ?? 0,
+    })),
+    remainingSessions,
+    plannedRemainingMinutes: remainingSessions * design.minutesPerSession,
+    projectedRemainingMinutes: remainingSessions * (averageSessionMinutes ?? design.minutesPerSession),
+  };
+}
+
+// Build the ordered model list of a block from the shuffled IDs
+function buildBlockModels(modelOrder: string[], definitions: ModelDefinition[]): (BallModel | BalloonModel)[] {
+  return modelOrder.map((modelId, idx) => {
+    const definition = definitions.find(d => d.id === modelId)!;
+    // Only add color if it exists (Firebase doesn't accept undefined)
+    return definition.color
+      ? { id: modelId, name: definition.name, color: definition.color, order: idx + 1 }
+      : { id: modelId, name: definition.name, order: idx + 1 };
+  });
+}
 
 // Generate measurements for a model type using cycle structure
 function generateCycleMeasurements(
   modelIds: string[],
   modelNames: string[],
-  colors?: string[],
-  repetitions: number = 5
+  colors: (string | undefined)[] | undefined,
+  repetitions: number
 ): Measurement[] {
   const measurements: Measurement[] = [];
 
@@ -140,8 +607,8 @@ function generateRandomizedCycleMeasurements(
   modelIds: string[],
   modelNames: string[],
   random: () => number,
-  colors?: string[],
-  repetitions: number = 5
+  colors: (string | undefined)[] | undefined,
+  repetitions: number
 ): Measurement[] {
   const measurements: Measurement[] = [];
 
@@ -171,64 +638,61 @@ function generateRandomizedCycleMeasurements(
 
 // Generate a complete session based on randomization
 function generateSession(
-  sessionNumber: 1 | 2 | 3,
-  modalityOrder: ['ultrasound', 'palpation'] | ['palpation', 'ultrasound'],
-  modelTypeOrder: ['ball', 'balloon'] | ['balloon', 'ball'],
+  sessionNumber: number,
+  modalityOrder: Modality[],
+  modelTypeOrder: ModelType[],
   ballSphereOrder: string[],
   balloonOrder: string[],
-  random: () => number
+  design: StudyDesign,
+  random: () => number,
+  algorithmVersion: AlgorithmVersion
 ): Session {
   const modalities: ModalityBlock[] = [];
+  const algorithm = getAlgorithm(algorithmVersion);
+  const ballDefinitions = getModelTypeDefinition(design, 'ball').models;
+  const balloonDefinitions = getModelTypeDefinition(design, 'balloon').models;
 
   for (let i = 0; i < modalityOrder.length; i++) {
     const modality = modalityOrder[i];
-    const isPalpation = modality === 'palpation';
+    const reshuffle = algorithm.reshufflePerRepetition &&
+      design.modalities.find(m => m.id === modality)!.reshufflePerRepetition;
 
     // Create ball models block
-    const ballModels: BallModel[] = ballSphereOrder.map((sphereId, idx) => {
-      const sphere = BALL_SPHERES.find(s => s.id === sphereId)!;
-      return {
-        id: sphereId,
-        name: sphere.name,
-        color: sphere.color,
-        order: idx + 1,
-      };
-    });
+    const ballModels: BallModel[] = buildBlockModels(ballSphereOrder, ballDefinitions);
 
     // Create balloon models block
-    const balloonModels: BalloonModel[] = balloonOrder.map((balloonId, idx) => {
-      const balloon = BALLOON_MODELS.find(b => b.id === balloonId)!;
-      return {
-        id: balloonId,
-        name: balloon.name,
-        order: idx + 1,
-      };
-    });
+    const balloonModels: BalloonModel[] = buildBlockModels(balloonOrder, balloonDefinitions);
 
     // For Palpation: independently randomize order for each repetition
     // For Ultrasound: use fixed order across all repetitions
-    const ballMeasurements = isPalpation
+    const ballMeasurements = reshuffle
       ? generateRandomizedCycleMeasurements(
           ballSphereOrder,
           ballModels.map(m => m.name),
           random,
-          ballModels.map(m => m.color)
+          ballModels.map(m => m.color),
+          design.repetitions
         )
       : generateCycleMeasurements(
           ballSphereOrder,
           ballModels.map(m => m.name),
-          ballModels.map(m => m.color)
+          ballModels.map(m => m.color),
+          design.repetitions
         );
 
-    const balloonMeasurements = isPalpation
+    const balloonMeasurements = reshuffle
       ? generateRandomizedCycleMeasurements(
           balloonOrder,
           balloonModels.map(m => m.name),
-          random
+          random,
+          balloonModels.map(m => m.color),
+          design.repetitions
         )
       : generateCycleMeasurements(
           balloonOrder,
-          balloonModels.map(m => m.name)
+          balloonModels.map(m => m.name),
+          balloonModels.map(m => m.color),
+          design.repetitions
         );
 
     const ballBlock: ModelTypeBlock = {
@@ -260,87 +724,506 @@ function generateSession(
     ballSphereOrder,
     balloonOrder,
     modalities,
-    totalMeasurements: 80, // 2 modalities × 2 model types × 4 models × 5 reps
+    totalMeasurements: getMeasurementsPerSession(design),
+  };
+}
+
+// Build a Williams design for n treatments: a Latin square in which every
+// treatment follows every other treatment equally often (first-order carryover).
+// Even n needs n rows; odd n needs 2n rows (the square plus its mirror image).
+export function buildWilliamsDesign(n: number): number[][] {
+  // First row: 0, 1, n-1, 2, n-2, 3, ...; every other row shifts it by one
+  const firstRow = [0];
+  for (let low = 1, high = n - 1; firstRow.length < n;) {
+    firstRow.push(low++);
+    if (firstRow.length < n) {
+      firstRow.push(high--);
+    }
+  }
+
+  const rows = Array.from({ length: n }, (_, r) => firstRow.map(t => (t + r) % n));
+  return n % 2 === 0 || n === 1 ? rows : [...rows, ...rows.map(row => [...row].reverse())];
+}
+
+// Counterbalancing factors, in the order they are salted into the block seeds
+const COUNTERBALANCED_FACTORS = ['modality', 'modelType', 'ball', 'balloon'] as const;
+
+// Pick the Williams-design row for an allocation slot. Slots are grouped into
+// blocks of one complete square; within each block the rows are used in a
+// seeded random order, so every factor is balanced after each complete block
+// and the factors are not locked to each other.
+function getWilliamsRow<T>(items: T[], masterSeed: number, factorIndex: number, allocationIndex: number): T[] {
+  const square = buildWilliamsDesign(items.length);
+  const block = Math.floor(allocationIndex / square.length);
+  const blockRandom = createSeededRandom(
+    masterSeed ^ Math.imul(factorIndex + 1, 0x9E3779B1) ^ Math.imul(block + 1, 0x85EBCA77)
+  );
+  const rowOrder = shuffleArray(square.map((_, i) => i), blockRandom);
+  const row = square[rowOrder[allocationIndex % square.length]];
+  return row.map(i => items[i]);
+}
+
+// Orders for an allocation slot under the 'williams' method
+export function getCounterbalancedOrders(
+  design: StudyDesign,
+  masterSeed: number,
+  allocationIndex: number
+): ParticipantOrders {
+  const factorItems = {
+    modality: design.modalities.map(m => m.id),
+    modelType: design.modelTypes.map(t => t.id),
+    ball: getModelTypeDefinition(design, 'ball').models.map(m => m.id),
+    balloon: getModelTypeDefinition(design, 'balloon').models.map(m => m.id),
+  };
+  const rowFor = <T,>(items: T[], factor: typeof COUNTERBALANCED_FACTORS[number]) =>
+    getWilliamsRow(items, masterSeed, COUNTERBALANCED_FACTORS.indexOf(factor), allocationIndex);
+
+  return {
+    modalityOrder: rowFor(factorItems.modality, 'modality'),
+    modelTypeOrder: rowFor(factorItems.modelType, 'modelType'),
+    ballSphereOrder: rowFor(factorItems.ball, 'ball'),
+    balloonOrder: rowFor(factorItems.balloon, 'balloon'),
   };
 }
 
-// Generate randomization for a single participant
+// Default covariates for stratified allocation
+export const DEFAULT_STRATIFICATION_FACTORS: StratificationFactor[] = [
+  { id: 'role', label: 'Role', levels: ['Clinician', 'Student'] },
+  { id: 'experience', label: 'Experience', levels: ['Novice', 'Experienced'] },
+  { id: 'handedness', label: 'Handedness', levels: ['Right', 'Left'] },
+];
+
+// Arms of stratified allocation: which modality and which model type come first
+export interface AllocationArm {
+  modalityFirst: Modality;
+  modelTypeFirst: ModelType;
+}
+
+export function getAllocationArms(design: StudyDesign): AllocationArm[] {
+  return design.modalities.flatMap(m =>
+    design.modelTypes.map(t => ({ modalityFirst: m.id, modelTypeFirst: t.id }))
+  );
+}
+
+// Validate stratification settings against a design
+export function validateStratification(settings: StratificationSettings, design: StudyDesign): void {
+  if (settings.factors.length === 0) {
+    throw new Error('Stratified allocation needs at least one stratification factor');
+  }
+  if (new Set(settings.factors.map(f => f.id)).size !== settings.factors.length) {
+    throw new Error('Stratification factors must be unique');
+  }
+  for (const factor of settings.factors) {
+    if (factor.levels.length < 2 || new Set(factor.levels).size !== factor.levels.length) {
+      throw new Error(`${factor.label} needs at least two distinct levels`);
+    }
+  }
+  const armCount = getAllocationArms(design).length;
+  if (!Number.isInteger(settings.blockSize) || settings.blockSize < armCount || settings.blockSize % armCount !== 0) {
+    throw new Error(`Block size must be a multiple of the ${armCount} allocation arms`);
+  }
+}
+
+// Stable key of a participant's stratum, e.g. "Clinician / Novice / Right"
+export function getStratumKey(strata: Strata, factors: StratificationFactor[]): string {
+  return factors.map(f => strata[f.id] ?? '?').join(' / ');
+}
+
+// Check that strata name a valid level for every factor
+function validateStrata(strata: Strata | undefined, factors: StratificationFactor[]): Strata {
+  if (!strata) {
+    throw new Error('Stratified allocation requires the participant\'s strata');
+  }
+  for (const factor of factors) {
+    if (!factor.levels.includes(strata[factor.id])) {
+      throw new Error(`Missing or unknown ${factor.label.toLowerCase()} level`);
+    }
+  }
+  return strata;
+}
+
+// 32-bit FNV-1a hash, used to give every stratum its own block sequence
+function hashString(value: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Orders for the n-th participant (0-based) of a stratum under the
+// 'stratified' method. Each block of `blockSize` slots holds every arm equally
+// often, in a seeded order unique to the stratum and block. Only the first
+// modality and model type are fixed; the rest is left to the participant seed.
+export function getStratifiedOrders(
+  design: StudyDesign,
+  settings: StratificationSettings,
+  masterSeed: number,
+  stratumKey: string,
+  allocationIndex: number
+): Partial<ParticipantOrders> {
+  const arms = getAllocationArms(design);
+  const block = Math.floor(allocationIndex / settings.blockSize);
+  const blockRandom = createSeededRandom(
+    masterSeed ^ hashString(stratumKey) ^ Math.imul(block + 1, 0x85EBCA77)
+  );
+  const blockArms = shuffleArray(
+    Array.from({ length: settings.blockSize }, (_, i) => arms[i % arms.length]),
+    blockRandom
+  );
+  const arm = blockArms[allocationIndex % settings.blockSize];
+
+  const withFirst = <T,>(items: T[], first: T) => [first, ...items.filter(item => item !== first)];
+  return {
+    modalityOrder: withFirst(design.modalities.map(m => m.id), arm.modalityFirst),
+    modelTypeOrder: withFirst(design.modelTypes.map(t => t.id), arm.modelTypeFirst),
+  };
+}
+
+export interface StratumBalance {
+  stratum: string;
+  participants: number;
+  armCounts: number[]; // Indexed like getAllocationArms(design)
+  unassigned: number[]; // Record IDs whose sessions start with no arm (edited data)
+}
+
+// Participants per arm in every stratum, to check balance of stratified allocation
+export function getStratumBalance(data: ExperimentData): StratumBalance[] {
+  if (!data.stratification) return [];
+  const factors = data.stratification.factors;
+  const arms = getAllocationArms(data.design);
+  const balance = new Map<string, StratumBalance>();
+
+  for (const participant of data.participants) {
+    if (!participant.strata) continue;
+    const stratum = getStratumKey(participant.strata, factors);
+    if (!balance.has(stratum)) {
+      balance.set(stratum, { stratum, participants: 0, armCounts: arms.map(() => 0), unassigned: [] });
+    }
+    const entry = balance.get(stratum)!;
+    const session = participant.sessions[0];
+    const armIndex = arms.findIndex(arm =>
+      arm.modalityFirst === session.modalityOrder[0] && arm.modelTypeFirst === session.modelTypeOrder[0]
+    );
+    entry.participants++;
+    if (armIndex === -1) {
+      entry.unassigned.push(participant.recordId);
+    } else {
+      entry.armCounts[armIndex]++;
+    }
+  }
+
+  return Array.from(balance.values()).sort((a, b) => a.stratum.localeCompare(b.stratum));
+}
+
+// Generate randomization for a single participant. Orders passed in `orders`
+// (counterbalanced or stratified allocation) are used as given; the seed
+// shuffles the remaining layers and drives the per-repetition reshuffles of
+// modalities like Palpation.
 function generateParticipantRandomization(
   recordId: number,
-  randomSeed: number
+  randomSeed: number,
+  design: StudyDesign = DEFAULT_STUDY_DESIGN,
+  orders?: Partial<ParticipantOrders>,
+  algorithmVersion: AlgorithmVersion = CURRENT_ALGORITHM_VERSION
 ): Participant {
   const random = createSeededRandom(randomSeed);
 
   // Layer 1: Randomize modality order (Ultrasound vs Palpation)
-  const modalities: ['ultrasound', 'palpation'] = ['ultrasound', 'palpation'];
-  const modalityOrder = shuffleArray(modalities, random) as ['ultrasound', 'palpation'] | ['palpation', 'ultrasound'];
+  const modalityOrder = orders?.modalityOrder ?? shuffleArray(design.modalities.map(m => m.id), random);
 
   // Layer 2: Randomize model type order (Ball vs Balloon)
-  const modelTypes: ['ball', 'balloon'] = ['ball', 'balloon'];
-  const modelTypeOrder = shuffleArray(modelTypes, random) as ['ball', 'balloon'] | ['balloon', 'ball'];
+  const modelTypeOrder = orders?.modelTypeOrder ?? shuffleArray(design.modelTypes.map(t => t.id), random);
 
   // Layer 3: Randomize ball sphere order
-  const ballSphereIds = BALL_SPHERES.map(s => s.id);
-  const ballSphereOrder = shuffleArray(ballSphereIds, random);
+  const ballSphereIds = getModelTypeDefinition(design, 'ball').models.map(s => s.id);
+  const ballSphereOrder = orders?.ballSphereOrder ?? shuffleArray(ballSphereIds, random);
 
   // Layer 4: Randomize balloon order (independent from ball)
-  const balloonIds = BALLOON_MODELS.map(b => b.id);
-  const balloonOrder = shuffleArray(balloonIds, random);
+  const balloonIds = getModelTypeDefinition(design, 'balloon').models.map(b => b.id);
+  const balloonOrder = orders?.balloonOrder ?? shuffleArray(balloonIds, random);
 
-  // Generate identical sessions (randomized ONCE, copied to all 3)
-  const baseSession = generateSession(1, modalityOrder, modelTypeOrder, ballSphereOrder, balloonOrder, random);
+  // Generate identical sessions (randomized ONCE, copied to all sessions)
+  const baseSession = generateSession(
+    1, modalityOrder, modelTypeOrder, ballSphereOrder, balloonOrder, design, random, algorithmVersion
+  );
 
-  const sessions: [Session, Session, Session] = [
-    { ...baseSession, sessionNumber: 1 },
-    { ...baseSession, sessionNumber: 2 },
-    { ...baseSession, sessionNumber: 3 },
-  ];
+  const sessions: Session[] = Array.from({ length: design.sessionsPerParticipant }, (_, i) => ({
+    ...baseSession,
+    sessionNumber: i + 1,
+  }));
 
   return {
     recordId,
     randomSeed,
+    algorithmVersion,
     sessions,
   };
 }
 
+type AllocationSettings = Pick<
+  ExperimentData,
+  'design' | 'masterSeed' | 'allocationMethod' | 'stratification' | 'algorithmVersion'
+>;
+
+// Generate a participant under the study's allocation method
+function allocateParticipant(
+  study: AllocationSettings,
+  recordId: number,
+  randomSeed: number,
+  allocationIndex: number,
+  strata?: Strata
+): Participant {
+  const algorithmVersion = study.algorithmVersion ?? CURRENT_ALGORITHM_VERSION;
+
+  if (study.masterSeed === undefined || !study.allocationMethod || study.allocationMethod === 'random') {
+    return generateParticipantRandomization(recordId, randomSeed, study.design, undefined, algorithmVersion);
+  }
+
+  if (study.allocationMethod === 'stratified') {
+    const settings = study.stratification!;
+    strata = validateStrata(strata, settings.factors);
+    const stratumKey = getStratumKey(strata, settings.factors);
+    const orders = getStratifiedOrders(study.design, settings, study.masterSeed, stratumKey, allocationIndex);
+    const participant = generateParticipantRandomization(recordId, randomSeed, study.design, orders, algorithmVersion);
+    return {
+      recordId: participant.recordId,
+      randomSeed: participant.randomSeed,
+      algorithmVersion,
+      allocationIndex,
+      strata,
+      sessions: participant.sessions,
+    };
+  }
+
+  const orders = getCounterbalancedOrders(study.design, study.masterSeed, allocationIndex);
+  const participant = generateParticipantRandomization(recordId, randomSeed, study.design, orders, algorithmVersion);
+  return {
+    recordId: participant.recordId,
+    randomSeed: participant.randomSeed,
+    algorithmVersion,
+    allocationIndex,
+    sessions: participant.sessions,
+  };
+}
+
+// Re-create a stored participant from its seed, allocation slot and strata,
+// using the study's design and allocation method and the participant's own
+// algorithm version
+export function reproduceParticipant(data: ExperimentData, participant: Participant): Participant {
+  return allocateParticipant(
+    { ...data, algorithmVersion: participant.algorithmVersion ?? data.algorithmVersion },
+    participant.recordId,
+    participant.randomSeed,
+    participant.allocationIndex ?? 0,
+    participant.strata
+  );
+}
+
+// Sequence of model IDs in a session, in measurement order
+function getMeasurementSequence(session: Session | undefined): string {
+  return (session?.modalities ?? [])
+    .flatMap(m => [...(m.ballBlock?.measurements ?? []), ...(m.balloonBlock?.measurements ?? [])])
+    .map(m => m.modelId)
+    .join(',');
+}
+
+// Newest algorithm version that reproduces a stored participant. Falls back to
+// the current version when none does (verification will then report it).
+export function inferAlgorithmVersion(data: ExperimentData, participant: Participant): AlgorithmVersion {
+  const stored = getMeasurementSequence(participant.sessions?.[0]);
+  const versions = (Object.keys(ALGORITHM_VERSIONS).map(Number) as AlgorithmVersion[]).sort((a, b) => b - a);
+
+  for (const version of versions) {
+    try {
+      const reproduced = reproduceParticipant(data, { ...participant, algorithmVersion: version });
+      if (getMeasurementSequence(reproduced.sessions[0]) === stored) {
+        return version;
+      }
+    } catch {
+      // Not reproducible with this version
+    }
+  }
+  return CURRENT_ALGORITHM_VERSION;
+}
+
+// Lowest allocation slot not held by a current participant, so a slot freed
+// by a removed participant is reused and the squares/blocks stay balanced
+function getNextAllocationIndex(participants: Participant[]): number {
+  const used = new Set(participants.map(p => p.allocationIndex));
+  let index = 0;
+  while (used.has(index)) {
+    index++;
+  }
+  return index;
+}
+
+// Participants sharing an allocation sequence with a new enrollment: the whole
+// list, or only the same stratum under stratified allocation
+function getAllocationPeers(data: ExperimentData, strata?: Strata): Participant[] {
+  if (data.allocationMethod !== 'stratified' || !data.stratification) {
+    return data.participants;
+  }
+  const key = getStratumKey(strata!, data.stratification.factors);
+  return data.participants.filter(p => p.strata && getStratumKey(p.strata, data.stratification!.factors) === key);
+}
+
+export interface GenerationOptions {
+  design?: StudyDesign;
+  masterSeed?: number; // Drawn at random when omitted
+  allocationMethod?: AllocationMethod; // Defaults to 'random'
+  stratification?: StratificationSettings; // Required for 'stratified'
+  storageFormat?: StorageFormat; // Defaults to 'expanded'
+}
+
 // Main function to generate experiment data
 export function generateExperimentData(
-  totalParticipants: number
+  totalParticipants: number,
+  options: GenerationOptions = {}
 ): ExperimentData {
-  if (totalParticipants <= 0) {
+  const design = options.design ?? DEFAULT_STUDY_DESIGN;
+  const masterSeed = options.masterSeed ?? Math.floor(Math.random() * SEED_RANGE);
+  const allocationMethod = options.allocationMethod ?? 'random';
+  const stratification = options.stratification;
+
+  // Stratified studies start empty: participants are enrolled one at a time
+  // because their strata are only known at enrollment
+  if (allocationMethod === 'stratified') {
+    if (totalParticipants !== 0) {
+      throw new Error('Stratified studies enroll participants one at a time');
+    }
+  } else if (totalParticipants <= 0) {
     throw new Error('Total number of participants must be positive');
   }
+  if (!isValidMasterSeed(masterSeed)) {
+    throw new Error(`Master seed must be a whole number from 0 to ${MAX_MASTER_SEED}`);
+  }
+  validateStudyDesign(design);
+  if (allocationMethod === 'stratified') {
+    if (!stratification) {
+      throw new Error('Stratified allocation requires stratification settings');
+    }
+    validateStratification(stratification, design);
+  }
 
-  // Generate participants
+  // Generate participants (seed i is the i-th draw from the master seed)
   const participants: Participant[] = [];
-  const globalRandom = createSeededRandom(Date.now());
+  const masterRandom = createSeededRandom(masterSeed);
 
   for (let i = 0; i < totalParticipants; i++) {
     const recordId = i + 1;
-    const randomSeed = Math.floor(globalRandom() * 1000000);
-
-    const participant = generateParticipantRandomization(recordId, randomSeed);
+    const randomSeed = Math.floor(masterRandom() * SEED_RANGE);
+
+    const participant = allocateParticipant(
+      { design, masterSeed, allocationMethod, stratification, algorithmVersion: CURRENT_ALGORITHM_VERSION },
+      recordId,
+      randomSeed,
+      i
+    );
     participants.push(participant);
   }
 
-  const measurementsPerSession = 80;
-  const measurementsPerParticipant = measurementsPerSession * 3;
-
   return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    ...(options.storageFormat === 'compact' && { storageFormat: 'compact' as const }),
     generatedAt: new Date().toISOString(),
+    design,
+    masterSeed,
+    seedsIssued: totalParticipants,
+    allocationMethod,
+    algorithmVersion: CURRENT_ALGORITHM_VERSION,
+    ...(allocationMethod === 'stratified' && { stratification }),
+    lastRecordId: totalParticipants,
     participants,
-    summary: {
-      totalParticipants,
-      measurementsPerSession,
-      measurementsPerParticipant,
-      totalMeasurements: measurementsPerParticipant * totalParticipants,
-    },
+    summary: computeSummary(design, totalParticipants),
   };
 }
 
-// Export to JSON format for download
-export function exportToJSON(data: ExperimentData): string {
-  return JSON.stringify(data, null, 2);
+// Export to JSON format for download, optionally with an integrity report
+export function exportToJSON(data: ExperimentData, integrity?: IntegrityReport): string {
+  return JSON.stringify(integrity ? { ...data, integrity } : data, null, 2);
+}
+
+// Quote free-text values that would break a CSV row
+export function escapeCSV(value: string | number | boolean | undefined): string {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Split CSV text into rows of fields, honouring quoted fields. Blank lines
+// and a leading byte order mark are dropped.
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = text.startsWith('\ufeff') ? 1 : 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value !== ''));
+}
+
+// One measurement of a session in the order it is run
+export interface SessionStep {
+  modality: Modality;
+  modalityOrder: number;
+  modelType: ModelType;
+  modelTypeOrder: number;
+  measurement: Measurement;
+}
+
+// Every measurement of a session in run order: modality blocks in order, and
+// within each the model type blocks in the session's model type order
+export function getSessionSteps(session: Session): SessionStep[] {
+  const steps: SessionStep[] = [];
+  for (const modalityBlock of session.modalities) {
+    const orderedBlocks = session.modelTypeOrder[0] === 'ball'
+      ? [modalityBlock.ballBlock, modalityBlock.balloonBlock]
+      : [modalityBlock.balloonBlock, modalityBlock.ballBlock];
+
+    for (const modelBlock of orderedBlocks) {
+      for (const measurement of modelBlock.measurements) {
+        steps.push({
+          modality: modalityBlock.modality,
+          modalityOrder: modalityBlock.order,
+          modelType: modelBlock.modelType,
+          modelTypeOrder: modelBlock.order,
+          measurement,
+        });
+      }
+    }
+  }
+  return steps;
 }
 
 // Convert to flat structure for Excel export
@@ -357,6 +1240,12 @@ export interface FlatMeasurement {
   modelId: string;
   modelName: string;
   measurementNumber: number;
+  rating?: number;
+  identifiedModelId?: string;
+  note?: string;
+  skipped?: boolean;
+  startedAt?: string;
+  recordedAt?: string;
 }
 
 export function flattenForExcel(data: ExperimentData): FlatMeasurement[] {
@@ -365,31 +1254,28 @@ export function flattenForExcel(data: ExperimentData): FlatMeasurement[] {
 
   for (const participant of data.participants) {
     for (const session of participant.sessions) {
-      for (const modalityBlock of session.modalities) {
-        // Get blocks in correct order based on modelTypeOrder
-        const orderedBlocks = session.modelTypeOrder[0] === 'ball'
-          ? [modalityBlock.ballBlock, modalityBlock.balloonBlock]
-          : [modalityBlock.balloonBlock, modalityBlock.ballBlock];
-
-        for (const modelBlock of orderedBlocks) {
-          for (const measurement of modelBlock.measurements) {
-            measurementNumber++;
-            rows.push({
-              participantId: participant.recordId,
-              randomSeed: participant.randomSeed,
-              session: session.sessionNumber,
-              modality: modalityBlock.modality,
-              modalityOrder: modalityBlock.order,
-              modelType: modelBlock.modelType,
-              modelTypeOrder: modelBlock.order,
-              repetition: measurement.repetition,
-              modelPosition: measurement.modelOrder,
-              modelId: measurement.modelId,
-              modelName: measurement.modelName,
-              measurementNumber,
-            });
-          }
-        }
+      for (const { measurement, ...step } of getSessionSteps(session)) {
+        measurementNumber++;
+        rows.push({
+          participantId: participant.recordId,
+          randomSeed: participant.randomSeed,
+          session: session.sessionNumber,
+          modality: step.modality,
+          modalityOrder: step.modalityOrder,
+          modelType: step.modelType,
+          modelTypeOrder: step.modelTypeOrder,
+          repetition: measurement.repetition,
+          modelPosition: measurement.modelOrder,
+          modelId: measurement.modelId,
+          modelName: measurement.modelName,
+          measurementNumber,
+          rating: measurement.result?.rating,
+          identifiedModelId: measurement.result?.identifiedModelId,
+          note: measurement.result?.note,
+          skipped: measurement.result?.skipped,
+          startedAt: measurement.result?.startedAt,
+          recordedAt: measurement.result?.recordedAt,
+        });
       }
     }
   }
@@ -397,25 +1283,93 @@ export function flattenForExcel(data: ExperimentData): FlatMeasurement[] {
   return rows;
 }
 
-// Local storage key
+// CSV export with one row per measurement; the integrity report fills the
+// Seed Verified column. importData.ts reads this format back.
+export function exportToCSV(data: ExperimentData, integrity: IntegrityReport): string {
+  const verifiedIds = new Set(integrity.participants.filter(p => p.passed).map(p => p.recordId));
+  const participantStatuses = new Map(data.participants.map(p => [p.recordId, getParticipantStatus(p)]));
+  const sessionStatuses = new Map(data.participants.flatMap(p =>
+    p.sessions.map(s => [`${p.recordId}-${s.sessionNumber}`, getSessionStatus(p, s)] as const)
+  ));
+
+  const headers = [
+    'Participant ID',
+    'Random Seed',
+    'Session',
+    'Modality',
+    'Modality Order',
+    'Model Type',
+    'Model Type Order',
+    'Repetition',
+    'Model Position',
+    'Model ID',
+    'Model Name',
+    'Measurement Number',
+    'Participant Status',
+    'Session Status',
+    'Seed Verified',
+    'Rating',
+    'Identified Model',
+    'Skipped',
+    'Note',
+    'Measurement Started',
+    'Result Recorded',
+  ];
+
+  const rows = flattenForExcel(data).map(row => [
+    row.participantId,
+    row.randomSeed,
+    row.session,
+    row.modality,
+    row.modalityOrder,
+    row.modelType,
+    row.modelTypeOrder,
+    row.repetition,
+    row.modelPosition,
+    row.modelId,
+    row.modelName,
+    row.measurementNumber,
+    participantStatuses.get(row.participantId),
+    sessionStatuses.get(`${row.participantId}-${row.session}`),
+    verifiedIds.has(row.participantId) ? 'pass' : 'FAIL',
+    row.rating,
+    row.identifiedModelId,
+    row.skipped ? 'yes' : undefined,
+    row.note,
+    row.startedAt,
+    row.recordedAt,
+  ]);
+
+  return [
+    headers.join(','),
+    ...rows.map(row => row.map(escapeCSV).join(',')),
+  ].join('\n');
+}
+
+// Study stored in experiments/main before multiple studies existed
+export const DEFAULT_STUDY_ID = 'main';
+
+// Local storage key; the default study keeps the original key
 const STORAGE_KEY = 'compressibility-study-data';
 
+function getStorageKey(studyId: string): string {
+  return studyId === DEFAULT_STUDY_ID ? STORAGE_KEY : `${STORAGE_KEY}:${studyId}`;
+}
+
 // Save to local storage
-export function saveToLocalStorage(data: ExperimentData): void {
+export function saveToLocalStorage(data: ExperimentData, studyId: string = DEFAULT_STUDY_ID): void {
   if (typeof window !== 'undefined') {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    localStorage.setItem(getStorageKey(studyId), JSON.stringify(data));
   }
 }
 
-// Load from local storage
-export function loadFromLocalStorage(): ExperimentData | null {
+// Load from local storage (null when the backup is missing or invalid)
+export function loadFromLocalStorage(studyId: string = DEFAULT_STUDY_ID): ExperimentData | null {
   if (typeof window !== 'undefined') {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    const stored = localStorage.getItem(getStorageKey(studyId));
     if (stored) {
       try {
-        const rawData = JSON.parse(stored);
-        // Migrate old data format to new format
-        return migrateData(rawData);
+        return parseExperimentData(JSON.parse(stored));
       } catch {
         return null;
       }
@@ -425,254 +1379,423 @@ export function loadFromLocalStorage(): ExperimentData | null {
 }
 
 // Clear local storage
-export function clearLocalStorage(): void {
+export function clearLocalStorage(studyId: string = DEFAULT_STUDY_ID): void {
   if (typeof window !== 'undefined') {
-    localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(getStorageKey(studyId));
   }
 }
 
-// Migrate old data format to new format
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function migrateData(data: any): ExperimentData {
-  if (!data || !data.participants) return data;
-
-  // Map old sphere names to new color names
-  const sphereToColor: { [key: string]: { name: string; color: string } } = {
-    'Sphere 1': { name: 'Yellow', color: '#EAB308' },
-    'Sphere 2': { name: 'Green', color: '#22C55E' },
-    'Sphere 3': { name: 'Red', color: '#EF4444' },
-    'Sphere 4': { name: 'Blue', color: '#3B82F6' },
-  };
-
-  for (const participant of data.participants) {
-    for (const session of participant.sessions) {
-      // Migrate balloonPointOrder -> balloonOrder
-      if (session.balloonPointOrder && !session.balloonOrder) {
-        // Convert old P1, P2, P3, P4 IDs to new B1, B2, B3, B4 IDs
-        session.balloonOrder = session.balloonPointOrder.map((id: string) => {
-          if (id.startsWith('P')) {
-            return 'B' + id.substring(1);
-          }
-          return id;
-        });
-        delete session.balloonPointOrder;
-      }
-
-      // Migrate models in modalities
-      for (const modality of session.modalities) {
-        // Migrate ball models (Sphere names -> Color names)
-        const ballBlock = modality.ballBlock;
-        if (ballBlock) {
-          // Migrate ball models
-          ballBlock.models = ballBlock.models.map((m: { id: string; name: string; color?: string; order: number }) => {
-            const colorInfo = sphereToColor[m.name];
-            if (colorInfo) {
-              return {
-                id: m.id,
-                name: colorInfo.name,
-                color: colorInfo.color,
-                order: m.order
-              };
-            }
-            // Already migrated or new format
-            if (!m.color) {
-              // Add color based on ID
-              const sphereNum = m.id.substring(1);
-              const defaultColors: { [key: string]: string } = {
-                '1': '#EAB308', '2': '#22C55E', '3': '#EF4444', '4': '#3B82F6'
-              };
-              return { ...m, color: defaultColors[sphereNum] || '#888888' };
-            }
-            return m;
-          });
-
-          // Migrate ball measurements
-          ballBlock.measurements = ballBlock.measurements.map((m: { modelId: string; modelName: string; color?: string; repetition: number; modelOrder: number }) => {
-            const colorInfo = sphereToColor[m.modelName];
-            if (colorInfo) {
-              return { ...m, modelName: colorInfo.name, color: colorInfo.color };
-            }
-            return m;
-          });
-        }
+// Database functions (Firestore or the local file backend, see storage.ts)
+import { getStorage, withTimeout } from './storage';
+import { readStudyDocuments, replaceStudyDocuments } from './studyDocuments';
 
-        // Migrate balloon models
-        const balloonBlock = modality.balloonBlock;
-        if (balloonBlock) {
-          // Migrate models from pressure-based to name-based
-          balloonBlock.models = balloonBlock.models.map((m: { id: string; pressure?: number; name?: string; order: number }) => {
-            // Convert old P IDs to new B IDs
-            let newId = m.id;
-            if (m.id.startsWith('P')) {
-              newId = 'B' + m.id.substring(1);
-            }
-            // If it has pressure (old format), convert to name
-            if ('pressure' in m && !('name' in m)) {
-              const balloonNum = newId.substring(1);
-              return {
-                id: newId,
-                name: `Balloon ${balloonNum}`,
-                order: m.order
-              };
-            }
-            return { ...m, id: newId };
-          });
-
-          // Migrate measurements
-          balloonBlock.measurements = balloonBlock.measurements.map((m: { modelId: string; modelName: string; repetition: number; modelOrder: number }) => {
-            let newId = m.modelId;
-            if (m.modelId.startsWith('P')) {
-              newId = 'B' + m.modelId.substring(1);
-            }
-            // If modelName contains mmHg, convert to Balloon name
-            let newName = m.modelName;
-            if (m.modelName.includes('mmHg')) {
-              const balloonNum = newId.substring(1);
-              newName = `Balloon ${balloonNum}`;
-            }
-            return { ...m, modelId: newId, modelName: newName };
-          });
-        }
-      }
-    }
-  }
+// One parent document per study, keyed by study ID (see studyDocuments.ts)
+const STUDY_COLLECTION = 'experiments';
 
-  return data as ExperimentData;
+export function getStudyPath(studyId: string): string {
+  return `${STUDY_COLLECTION}/${studyId}`;
 }
 
-// Firestore functions
-import { db } from './firebase';
-import { doc, setDoc, getDoc, deleteDoc } from 'firebase/firestore';
-
-const FIRESTORE_COLLECTION = 'experiments';
-const FIRESTORE_DOC_ID = 'main';
-
-// Save to Firestore
-export async function saveToFirestore(data: ExperimentData): Promise<void> {
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => reject(new Error('Firestore save timeout after 10s')), 10000);
-  });
-
+// Save to the database
+export async function saveToDatabase(data: ExperimentData, studyId: string = DEFAULT_STUDY_ID): Promise<void> {
   try {
-    const docRef = doc(db, FIRESTORE_COLLECTION, FIRESTORE_DOC_ID);
-    await Promise.race([
-      setDoc(docRef, data),
-      timeoutPromise
-    ]);
+    await withTimeout(replaceStudyDocuments(studyId, data), 'Database save timeout after 10s');
     // Also save to localStorage as backup
-    saveToLocalStorage(data);
+    saveToLocalStorage(data, studyId);
   } catch (error) {
     // Fallback to localStorage only
-    saveToLocalStorage(data);
+    saveToLocalStorage(data, studyId);
     throw error;
   }
 }
 
-// Load from Firestore with timeout
-export async function loadFromFirestore(): Promise<ExperimentData | null> {
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => reject(new Error('Firestore timeout after 10s')), 10000);
-  });
-
+// Load from the database with timeout
+// (falling back to localStorage when unreachable). Throws when the stored
+// data has a newer schema than this app supports or fails validation; the
+// localStorage backup is left as it was.
+export async function loadFromDatabase(studyId: string = DEFAULT_STUDY_ID): Promise<ExperimentData | null> {
+  let rawData: unknown;
   try {
-    const docRef = doc(db, FIRESTORE_COLLECTION, FIRESTORE_DOC_ID);
-    const docSnap = await Promise.race([
-      getDoc(docRef),
-      timeoutPromise
-    ]);
-
-    if (docSnap && docSnap.exists()) {
-      const rawData = docSnap.data();
-      // Migrate old data format to new format
-      const data = migrateData(rawData);
-      // Update localStorage with migrated data
-      saveToLocalStorage(data);
-      return data;
-    }
-    return null;
+    rawData = await withTimeout(readStudyDocuments(getStorage(), studyId), 'Database timeout after 10s');
   } catch {
     // Fallback to localStorage
-    return loadFromLocalStorage();
+    return loadFromLocalStorage(studyId);
   }
+  if (!rawData) return null;
+
+  const data = parseExperimentData(rawData);
+  // Update localStorage with upgraded data
+  saveToLocalStorage(data, studyId);
+  return data;
 }
 
-// Clear Firestore data
-export async function clearFirestore(): Promise<void> {
+// Clear database data
+export async function clearDatabase(studyId: string = DEFAULT_STUDY_ID): Promise<void> {
   try {
-    const docRef = doc(db, FIRESTORE_COLLECTION, FIRESTORE_DOC_ID);
-    await deleteDoc(docRef);
-    clearLocalStorage();
+    await replaceStudyDocuments(studyId, null);
+    clearLocalStorage(studyId);
   } catch (error) {
-    console.error('Error clearing Firestore:', error);
-    clearLocalStorage();
+    console.error('Error clearing database:', error);
+    clearLocalStorage(studyId);
     throw error;
   }
 }
 
 // Helper to update summary after participant changes
-function updateSummary(data: ExperimentData): ExperimentData {
-  const measurementsPerSession = 80;
-  const measurementsPerParticipant = measurementsPerSession * 3;
-
+export function updateSummary(data: ExperimentData): ExperimentData {
   return {
     ...data,
-    summary: {
-      totalParticipants: data.participants.length,
-      measurementsPerSession,
-      measurementsPerParticipant,
-      totalMeasurements: measurementsPerParticipant * data.participants.length,
-    },
+    summary: computeSummary(
+      data.design,
+      data.participants.length,
+      data.participants.filter(isWithdrawn).length
+    ),
   };
 }
 
-// Add a new participant to existing data
-export function addParticipant(data: ExperimentData): ExperimentData {
-  // New participant gets the next sequential number (length + 1)
-  const newRecordId = data.participants.length + 1;
+// Highest record ID issued so far (data from before lastRecordId was stored
+// falls back to the highest ID present)
+function getLastRecordId(data: ExperimentData): number {
+  return Math.max(data.lastRecordId ?? 0, ...data.participants.map(p => p.recordId));
+}
+
+// Add a new participant to existing data. Stratified studies need the new
+// participant's strata. A record ID issued elsewhere (REDCap) can be given
+// instead of the next unused one, as long as it hasn't been issued here.
+export function addParticipant(data: ExperimentData, strata?: Strata, recordId?: number): ExperimentData {
+  if (data.allocationMethod === 'stratified' && data.stratification) {
+    strata = validateStrata(strata, data.stratification.factors);
+  }
+  const lastRecordId = getLastRecordId(data);
+  if (recordId !== undefined && (!Number.isInteger(recordId) || recordId <= lastRecordId)) {
+    throw new Error(`Record ID ${recordId} has already been issued; the next free record ID is ${lastRecordId + 1}`);
+  }
+
+  // New participant gets the next unused record ID
+  const newRecordId = recordId ?? lastRecordId + 1;
 
-  // Generate a new random seed
-  const randomSeed = Math.floor(Math.random() * 1000000);
+  // Draw the next seed from the master seed
+  const { randomSeed, seedsIssued } = drawNextSeed(data);
 
-  // Generate the new participant
-  const newParticipant = generateParticipantRandomization(newRecordId, randomSeed);
+  // Generate the new participant (taking the next free slot of its sequence)
+  const newParticipant = allocateParticipant(
+    data,
+    newRecordId,
+    randomSeed,
+    getNextAllocationIndex(getAllocationPeers(data, strata)),
+    strata
+  );
 
   const updatedData: ExperimentData = {
     ...data,
+    ...(seedsIssued !== undefined && { seedsIssued }),
+    lastRecordId: Math.max(lastRecordId, newRecordId),
     participants: [...data.participants, newParticipant],
   };
 
   return updateSummary(updatedData);
 }
 
-// Remove a participant and renumber all remaining participants
+// Delete a participant that has not started any session. Record IDs of the
+// remaining participants never change, and the deleted ID is not reused.
 export function removeParticipant(data: ExperimentData, recordId: number): ExperimentData {
-  // Filter out the removed participant
-  const filteredParticipants = data.participants.filter(p => p.recordId !== recordId);
+  const participant = data.participants.find(p => p.recordId === recordId);
+  if (participant && hasStartedSessions(participant)) {
+    throw new Error(`Participant #${recordId} has started a session and can only be withdrawn`);
+  }
 
-  // Renumber all participants sequentially (1, 2, 3, ...)
-  const renumberedParticipants = filteredParticipants.map((participant, index) => ({
-    ...participant,
-    recordId: index + 1,
-  }));
+  const updatedData: ExperimentData = {
+    ...data,
+    lastRecordId: getLastRecordId(data),
+    participants: data.participants.filter(p => p.recordId !== recordId),
+  };
 
+  return updateSummary(updatedData);
+}
+
+// Withdraw a participant: the allocation stays in the dataset (and keeps its
+// counterbalancing slot) but no longer counts as active
+export function withdrawParticipant(data: ExperimentData, recordId: number, reason?: string): ExperimentData {
   const updatedData: ExperimentData = {
     ...data,
-    participants: renumberedParticipants,
+    participants: data.participants.map(p => {
+      if (p.recordId !== recordId) return p;
+      const withdrawn: Participant = { ...p, withdrawnAt: new Date().toISOString() };
+      // Only add reason if given (Firebase doesn't accept undefined)
+      if (reason) {
+        withdrawn.withdrawalReason = reason;
+      }
+      return withdrawn;
+    }),
   };
 
   return updateSummary(updatedData);
 }
 
-// Regenerate a specific participant (new randomization, same ID)
+// Undo a withdrawal recorded by mistake
+export function reinstateParticipant(data: ExperimentData, recordId: number): ExperimentData {
+  const updatedData: ExperimentData = {
+    ...data,
+    participants: data.participants.map(p => {
+      if (p.recordId !== recordId) return p;
+      const reinstated: Participant = { ...p };
+      delete reinstated.withdrawnAt;
+      delete reinstated.withdrawalReason;
+      return reinstated;
+    }),
+  };
+
+  return updateSummary(updatedData);
+}
+
+// Update the status of one session. Starting or completing a session stamps
+// startedAt (which locks the participant against deletion); moving a session
+// back to 'scheduled' clears its timestamps again.
+export function setSessionStatus(
+  data: ExperimentData,
+  recordId: number,
+  sessionNumber: number,
+  status: SessionStatus
+): ExperimentData {
+  const now = new Date().toISOString();
+
+  return {
+    ...data,
+    participants: data.participants.map(p => {
+      if (p.recordId !== recordId) return p;
+      return {
+        ...p,
+        sessions: p.sessions.map(s => {
+          if (s.sessionNumber !== sessionNumber) return s;
+          const { startedAt, completedAt, ...rest } = s;
+          const updated: Session = { ...rest, status };
+          if (status === 'in_progress' || status === 'completed') {
+            updated.startedAt = startedAt ?? now;
+          }
+          if (status === 'completed') {
+            updated.completedAt = completedAt ?? now;
+          }
+          return updated;
+        }),
+      };
+    }),
+  };
+}
+
+// Remember where the session runner is, so the session can be resumed later.
+// Leaving the first step starts a scheduled session.
+export function setSessionStep(
+  data: ExperimentData,
+  recordId: number,
+  sessionNumber: number,
+  step: number
+): ExperimentData {
+  const now = new Date().toISOString();
+
+  return {
+    ...data,
+    participants: data.participants.map(p => p.recordId !== recordId ? p : {
+      ...p,
+      sessions: p.sessions.map(s => {
+        if (s.sessionNumber !== sessionNumber) return s;
+        const currentStep = Math.max(0, Math.min(step, s.totalMeasurements - 1));
+        const updated: Session = { ...s, currentStep };
+        if (currentStep > 0 && (s.status ?? 'scheduled') === 'scheduled') {
+          updated.status = 'in_progress';
+          updated.startedAt = s.startedAt ?? now;
+        }
+        return updated;
+      }),
+    }),
+  };
+}
+
+export interface SessionSchedule {
+  plannedAt?: string;
+  operator?: string;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Why a planned time for a session is not allowed (sessions must stay in
+// order and the design's minimum interval apart), or null when it is fine
+export function getScheduleError(
+  participant: Participant,
+  design: StudyDesign,
+  sessionNumber: number,
+  plannedAt: string
+): string | null {
+  const planned = new Date(plannedAt).getTime();
+  if (Number.isNaN(planned)) return 'Planned time is not a valid date';
+
+  const minDays = design.minDaysBetweenSessions ?? 0;
+  for (const other of participant.sessions) {
+    if (other.sessionNumber === sessionNumber || !other.plannedAt) continue;
+    const gapDays = Math.abs(planned - new Date(other.plannedAt).getTime()) / MS_PER_DAY;
+    const inOrder = other.sessionNumber < sessionNumber
+      ? planned > new Date(other.plannedAt).getTime()
+      : planned < new Date(other.plannedAt).getTime();
+    if (!inOrder || gapDays < minDays) {
+      const relation = other.sessionNumber < sessionNumber ? 'after' : 'before';
+      const minimum = minDays > 0 ? `at least ${minDays} ${minDays === 1 ? 'day' : 'days'} ` : '';
+      return `Session ${sessionNumber} must be ${minimum}${relation} session ${other.sessionNumber} (${new Date(other.plannedAt).toLocaleString()})`;
+    }
+  }
+  return null;
+}
+
+// Book a session (planned start and operator). Empty fields are cleared.
+export function scheduleSession(
+  data: ExperimentData,
+  recordId: number,
+  sessionNumber: number,
+  schedule: SessionSchedule
+): ExperimentData {
+  const participant = data.participants.find(p => p.recordId === recordId);
+  if (!participant) {
+    throw new Error(`Participant #${recordId} not found`);
+  }
+  if (schedule.plannedAt) {
+    const error = getScheduleError(participant, data.design, sessionNumber, schedule.plannedAt);
+    if (error) throw new Error(error);
+  }
+
+  return {
+    ...data,
+    participants: data.participants.map(p => p.recordId !== recordId ? p : {
+      ...p,
+      sessions: p.sessions.map(s => {
+        if (s.sessionNumber !== sessionNumber) return s;
+        // Omit cleared fields; Firebase doesn't accept undefined values
+        const updated: Session = { ...s };
+        delete updated.plannedAt;
+        delete updated.operator;
+        if (schedule.plannedAt) updated.plannedAt = new Date(schedule.plannedAt).toISOString();
+        if (schedule.operator?.trim()) updated.operator = schedule.operator.trim();
+        return updated;
+      }),
+    }),
+  };
+}
+
+// Drop empty fields (Firebase doesn't accept undefined values). Corrections
+// keep the original timestamps so measurement durations stay meaningful.
+function cleanMeasurementResult(
+  result: MeasurementInput,
+  previous: MeasurementResult | undefined,
+  now: string
+): MeasurementResult | undefined {
+  const cleaned: MeasurementResult = { recordedAt: previous?.recordedAt ?? now };
+  if (result.rating !== undefined && !Number.isNaN(result.rating)) cleaned.rating = result.rating;
+  if (result.identifiedModelId) cleaned.identifiedModelId = result.identifiedModelId;
+  if (result.note?.trim()) cleaned.note = result.note.trim();
+  if (result.skipped) cleaned.skipped = true;
+  if (Object.keys(cleaned).length === 1) return undefined;
+
+  const startedAt = previous?.startedAt ?? result.startedAt;
+  if (startedAt) cleaned.startedAt = startedAt;
+  return cleaned;
+}
+
+// Record (or clear, when every field is empty) the result of one measurement.
+// Recording into a scheduled session marks it as in progress, so results can
+// no longer be lost by regenerating or deleting the participant.
+export function recordMeasurementResult(
+  data: ExperimentData,
+  recordId: number,
+  key: MeasurementKey,
+  result: MeasurementInput
+): ExperimentData {
+  const participant = data.participants.find(p => p.recordId === recordId);
+  const session = participant?.sessions.find(s => s.sessionNumber === key.sessionNumber);
+  if (!participant || !session) {
+    throw new Error(`Participant #${recordId} has no session ${key.sessionNumber}`);
+  }
+  if (isWithdrawn(participant)) {
+    throw new Error(`Participant #${recordId} has withdrawn`);
+  }
+
+  const now = new Date().toISOString();
+  let recorded = false;
+
+  const updateBlock = (block: ModelTypeBlock): ModelTypeBlock => ({
+    ...block,
+    measurements: block.measurements.map(m => {
+      if (m.repetition !== key.repetition || m.modelOrder !== key.modelOrder) return m;
+      const { result: previous, ...planned } = m;
+      const cleaned = cleanMeasurementResult(result, previous, now);
+      recorded = cleaned !== undefined;
+      return cleaned ? { ...planned, result: cleaned } : planned;
+    }),
+  });
+
+  const updatedSession: Session = {
+    ...session,
+    modalities: session.modalities.map(block => {
+      if (block.modality !== key.modality) return block;
+      return key.modelType === 'ball'
+        ? { ...block, ballBlock: updateBlock(block.ballBlock) }
+        : { ...block, balloonBlock: updateBlock(block.balloonBlock) };
+    }),
+  };
+  if (recorded && (session.status ?? 'scheduled') === 'scheduled') {
+    updatedSession.status = 'in_progress';
+    updatedSession.startedAt = session.startedAt ?? now;
+  }
+
+  return {
+    ...data,
+    participants: data.participants.map(p => p.recordId !== recordId ? p : {
+      ...p,
+      sessions: p.sessions.map(s => s.sessionNumber === key.sessionNumber ? updatedSession : s),
+    }),
+  };
+}
+
+// Copy what isn't part of the allocation onto a regenerated participant: its
+// withdrawal and each session's status and booking
+function keepProgress(participant: Participant, existing: Participant): Participant {
+  const kept: Participant = {
+    ...participant,
+    sessions: participant.sessions.map(session => {
+      const previous = existing.sessions.find(s => s.sessionNumber === session.sessionNumber);
+      const updated: Session = { ...session };
+      if (previous?.status !== undefined) updated.status = previous.status;
+      if (previous?.plannedAt !== undefined) updated.plannedAt = previous.plannedAt;
+      if (previous?.operator !== undefined) updated.operator = previous.operator;
+      return updated;
+    }),
+  };
+  if (existing.withdrawnAt !== undefined) kept.withdrawnAt = existing.withdrawnAt;
+  if (existing.withdrawalReason !== undefined) kept.withdrawalReason = existing.withdrawalReason;
+  return kept;
+}
+
+// Regenerate a specific participant (new randomization, same ID). Its
+// withdrawal and session bookings are kept.
 export function regenerateParticipant(data: ExperimentData, recordId: number): ExperimentData {
-  // Generate a new random seed
-  const newRandomSeed = Math.floor(Math.random() * 1000000);
+  const existing = data.participants.find(p => p.recordId === recordId);
+  if (existing && hasStartedSessions(existing)) {
+    throw new Error(`Participant #${recordId} has started a session and can no longer be regenerated`);
+  }
 
-  // Generate new randomization for this participant
-  const regeneratedParticipant = generateParticipantRandomization(recordId, newRandomSeed);
+  // Draw the next seed from the master seed
+  const { randomSeed: newRandomSeed, seedsIssued } = drawNextSeed(data);
+
+  // Generate new randomization for this participant. Counterbalanced and
+  // stratified participants keep their slot, so only the seed-driven layers change.
+  const allocated = allocateParticipant(
+    { ...data, algorithmVersion: existing?.algorithmVersion ?? data.algorithmVersion },
+    recordId,
+    newRandomSeed,
+    existing?.allocationIndex ?? getNextAllocationIndex(getAllocationPeers(data, existing?.strata)),
+    existing?.strata
+  );
+  const regeneratedParticipant = existing ? keepProgress(allocated, existing) : allocated;
 
   const updatedData: ExperimentData = {
     ...data,
+    ...(seedsIssued !== undefined && { seedsIssued }),
     participants: data.participants.map(p =>
       p.recordId === recordId ? regeneratedParticipant : p
     ),
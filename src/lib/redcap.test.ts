@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { addParticipant, generateExperimentData, removeParticipant } from './randomization';
+import { alignWithRedcap, buildRedcapAllocationTable, parseRedcapRecords } from './redcap';
+import { verifyExperimentData } from './verification';
+
+function records(...lines: string[]) {
+  return parseRedcapRecords(lines.join('\n'));
+}
+
+describe('REDCap records', () => {
+  it('merges the events of a longitudinal export into one record', () => {
+    const parsed = records(
+      'record_id,redcap_event_name,age,score',
+      '1,baseline,34,',
+      '1,follow_up,,7',
+      '2,baseline,51,',
+    );
+    assert.deepEqual(parsed, [
+      { recordId: '1', values: { record_id: '1', redcap_event_name: 'baseline', age: '34', score: '7' } },
+      { recordId: '2', values: { record_id: '2', redcap_event_name: 'baseline', age: '51' } },
+    ]);
+  });
+
+  it('takes the record ID from the first column without a record_id field', () => {
+    assert.deepEqual(records('study_id,age', '4,20', ',21').map(r => r.recordId), ['4']);
+    assert.throws(() => parseRedcapRecords(''), /is empty/);
+    assert.throws(() => records('record_id,age'), /has no records/);
+  });
+});
+
+describe('REDCap alignment', () => {
+  const data = generateExperimentData(3, { masterSeed: 4242 });
+
+  it('matches its own allocation table without problems', () => {
+    const alignment = alignWithRedcap(data, parseRedcapRecords(buildRedcapAllocationTable(data)));
+    assert.equal(alignment.data, data);
+    assert.deepEqual(alignment.matched, [1, 2, 3]);
+    assert.deepEqual(alignment.created, []);
+    assert.deepEqual(alignment.notInRedcap, []);
+    assert.deepEqual(alignment.problems, []);
+  });
+
+  it('enrolls missing records under their REDCap record ID', () => {
+    const alignment = alignWithRedcap(data, records('record_id', '7', '1', '5'));
+    assert.deepEqual(alignment.created, [5, 7]);
+    assert.deepEqual(alignment.matched, [1]);
+    assert.deepEqual(alignment.notInRedcap, [2, 3]);
+    assert.deepEqual(alignment.data.participants.map(p => p.recordId), [1, 2, 3, 5, 7]);
+    assert.equal(alignment.data.lastRecordId, 7);
+    assert.ok(verifyExperimentData(alignment.data).passed);
+    // Enrolling here continues after the highest REDCap record ID
+    assert.equal(addParticipant(alignment.data).participants[5].recordId, 8);
+  });
+
+  it('keeps the record counter at the highest ID issued', () => {
+    const { data: aligned } = alignWithRedcap(data, records('record_id', '9', '5'));
+    assert.equal(aligned.lastRecordId, 9);
+    assert.throws(() => addParticipant(aligned, undefined, 6), /^Error: Record ID 6 has already been issued; the next free record ID is 10$/);
+    assert.equal(addParticipant(aligned, undefined, 12).lastRecordId, 12);
+  });
+
+  it('reports allocations that differ from REDCap', () => {
+    const table = parseRedcapRecords(buildRedcapAllocationTable(data));
+    const [first, second] = table;
+    first.values.random_seed = String(data.participants[0].randomSeed + 1);
+    second.values.sphere_order = second.values.sphere_order.split('-').reverse().join('-');
+    const { problems } = alignWithRedcap(data, table);
+    assert.equal(problems.length, 2);
+    assert.match(problems[0], /^Participant #1: random_seed is \d+ in REDCap, \d+ here$/);
+    assert.match(problems[1], /^Participant #2: sphere_order is [\d-]+ in REDCap, [\d-]+ here$/);
+  });
+
+  it('never reuses the record ID of a deleted participant', () => {
+    const alignment = alignWithRedcap(removeParticipant(data, 3), records('record_id', '1', '2', '3'));
+    assert.deepEqual(alignment.created, []);
+    assert.deepEqual(alignment.problems, ['REDCap record 3: this record ID was already issued here and has been deleted']);
+  });
+
+  it('reports records without a numeric record ID', () => {
+    const { created, problems } = alignWithRedcap(data, records('record_id', 'P-01', '0', '4'));
+    assert.deepEqual(created, [4]);
+    assert.deepEqual(problems, [
+      'REDCap record "P-01": not a numeric record ID',
+      'REDCap record "0": not a numeric record ID',
+    ]);
+  });
+
+  it('stops at the participant limit', () => {
+    const full = generateExperimentData(49, { masterSeed: 4242 });
+    const { created, problems } = alignWithRedcap(full, records('record_id', '50', '51'));
+    assert.deepEqual(created, [50]);
+    assert.deepEqual(problems, ['REDCap record 51: the study already has 50 participants']);
+  });
+});
+
+describe('REDCap alignment of a stratified study', () => {
+  const data = generateExperimentData(0, {
+    allocationMethod: 'stratified',
+    masterSeed: 4242,
+    stratification: { factors: [{ id: 'Site', label: 'Site', levels: ['Zurich', 'Bern'] }], blockSize: 4 },
+  });
+
+  it('reads strata from level codes or labels', () => {
+    const { data: aligned, created, problems } = alignWithRedcap(data, records('record_id,site', '1,2', '2,zurich', '3,', '4,Basel'));
+    assert.deepEqual(created, [1, 2]);
+    assert.deepEqual(aligned.participants.map(p => p.strata), [{ Site: 'Bern' }, { Site: 'Zurich' }]);
+    assert.deepEqual(problems, [
+      'REDCap record 3: no site value for stratification',
+      'REDCap record 4: unknown site "Basel"',
+    ]);
+  });
+
+  it('reports strata that differ from REDCap', () => {
+    const enrolled = addParticipant(data, { Site: 'Zurich' });
+    const table = buildRedcapAllocationTable(enrolled);
+    assert.deepEqual(alignWithRedcap(enrolled, parseRedcapRecords(table)).problems, []);
+    const { problems } = alignWithRedcap(enrolled, parseRedcapRecords(table.replace(/,1$/, ',2')));
+    assert.deepEqual(problems, ['Participant #1: site is Bern in REDCap, Zurich here']);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * REDCap Allocation Table
+ *
+ * Record IDs mirror REDCap's record numbering, and outcome data is collected
+ * in REDCap. The allocation table lists every participant's allocation as
+ * coded REDCap fields, ready for REDCap's data import tool:
+ * - modality_first / model_type_first: 1-based position in the study design
+ * - sphere_order / balloon_order: the models' 1-based design positions in
+ *   session order, e.g. "3-1-4-2"
+ * - one field per stratification factor: 1-based level code
+ *
+ * The reverse direction reads a REDCap record export and aligns the study
+ * with it: records that don't exist here yet are enrolled under the same
+ * record ID, and allocation fields present in the export are compared with
+ * the stored allocations so the two systems don't drift apart unnoticed.
+ */
+
+import {
+  ExperimentData,
+  Participant,
+  StratificationFactor,
+  Strata,
+  addParticipant,
+  escapeCSV,
+  parseCSV,
+} from './randomization';
+
+// The app's participant limit (see the Add Participant button)
+const MAX_PARTICIPANTS = 50;
+
+export const REDCAP_RECORD_ID_FIELD = 'record_id';
+
+const ALLOCATION_FIELDS = ['modality_first', 'model_type_first', 'sphere_order', 'balloon_order'] as const;
+
+type AllocationField = typeof ALLOCATION_FIELDS[number];
+
+// One record of a REDCap export: its record ID and field values
+export interface RedcapRecord {
+  recordId: string;
+  values: Record<string, string>;
+}
+
+export interface RedcapAlignment {
+  data: ExperimentData;
+  created: number[]; // Enrolled under the REDCap record ID
+  matched: number[]; // Present in both
+  notInRedcap: number[]; // Participants REDCap doesn't have
+  problems: string[]; // Records that couldn't be aligned, and allocations that differ
+}
+
+// REDCap variable names: lower case letters, digits and underscores, not
+// starting with a digit
+export function toRedcapFieldName(id: string): string {
+  const name = id.toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[a-z]/.test(name) ? name : `f_${name}`;
+}
+
+function getFactors(data: ExperimentData): StratificationFactor[] {
+  return data.allocationMethod === 'stratified' ? data.stratification?.factors ?? [] : [];
+}
+
+function positionCode<T>(items: T[], item: T): string {
+  return String(items.indexOf(item) + 1);
+}
+
+// Coded allocation fields of a participant (orders are the same in every
+// session, so the first session is used)
+function getAllocationCodes(data: ExperimentData, participant: Participant): Record<AllocationField, string> {
+  const session = participant.sessions[0];
+  const modalities = data.design.modalities.map(m => m.id);
+  const modelTypes = data.design.modelTypes.map(t => t.id);
+  const modelIds = (modelType: string) => data.design.modelTypes.find(t => t.id === modelType)?.models.map(m => m.id) ?? [];
+  return {
+    modality_first: positionCode(modalities, session.modalityOrder[0]),
+    model_type_first: positionCode(modelTypes, session.modelTypeOrder[0]),
+    sphere_order: session.ballSphereOrder.map(id => positionCode(modelIds('ball'), id)).join('-'),
+    balloon_order: session.balloonOrder.map(id => positionCode(modelIds('balloon'), id)).join('-'),
+  };
+}
+
+function getStrataCodes(factors: StratificationFactor[], strata: Strata | undefined): Record<string, string> {
+  return Object.fromEntries(factors.map(f => [
+    toRedcapFieldName(f.id),
+    strata?.[f.id] !== undefined ? positionCode(f.levels, strata[f.id]) : '',
+  ]));
+}
+
+// CSV allocation table with one row per participant (withdrawn participants
+// keep their allocation and are included)
+export function buildRedcapAllocationTable(data: ExperimentData): string {
+  const factors = getFactors(data);
+  const headers = [REDCAP_RECORD_ID_FIELD, 'random_seed', ...ALLOCATION_FIELDS, ...factors.map(f => toRedcapFieldName(f.id))];
+  const rows = data.participants.map(p => {
+    const values: Record<string, string | number> = {
+      [REDCAP_RECORD_ID_FIELD]: p.recordId,
+      random_seed: p.randomSeed,
+      ...getAllocationCodes(data, p),
+      ...getStrataCodes(factors, p.strata),
+    };
+    return headers.map(h => escapeCSV(values[h]));
+  });
+  return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
+}
+
+// Read a REDCap record export (CSV, raw or labelled values). The record ID
+// is the record_id column or, failing that, the first column, as in every
+// REDCap export. Longitudinal exports repeat a record once per event; the
+// first row with a value wins for each field.
+export function parseRedcapRecords(text: string): RedcapRecord[] {
+  const [headers, ...lines] = parseCSV(text);
+  if (!headers) {
+    throw new Error('The REDCap file is empty');
+  }
+  const names = headers.map(h => h.trim());
+  const idColumn = Math.max(0, names.indexOf(REDCAP_RECORD_ID_FIELD));
+
+  const records = new Map<string, RedcapRecord>();
+  for (const line of lines) {
+    const recordId = (line[idColumn] ?? '').trim();
+    if (recordId === '') continue;
+    if (!records.has(recordId)) records.set(recordId, { recordId, values: {} });
+    const values = records.get(recordId)!.values;
+    names.forEach((name, idx) => {
+      const value = (line[idx] ?? '').trim();
+      if (value !== '' && values[name] === undefined) values[name] = value;
+    });
+  }
+  if (records.size === 0) {
+    throw new Error('The REDCap file has no records');
+  }
+  return [...records.values()];
+}
+
+// Level of a stratification factor from a raw code (1-based) or its label
+function readLevel(factor: StratificationFactor, value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  const label = factor.levels.find(level => level.toLowerCase() === value.toLowerCase());
+  if (label) return label;
+  const code = Number(value);
+  return Number.isInteger(code) ? factor.levels[code - 1] : undefined;
+}
+
+function readStrata(factors: StratificationFactor[], record: RedcapRecord): Strata | string {
+  const strata: Strata = {};
+  for (const factor of factors) {
+    const value = record.values[toRedcapFieldName(factor.id)];
+    const level = readLevel(factor, value);
+    if (!level) {
+      return value === undefined
+        ? `no ${toRedcapFieldName(factor.id)} value for stratification`
+        : `unknown ${factor.label.toLowerCase()} "${value}"`;
+    }
+    strata[factor.id] = level;
+  }
+  return strata;
+}
+
+// Allocation fields (and strata) in the record that differ from the stored
+// participant
+function findDrift(data: ExperimentData, participant: Participant, record: RedcapRecord): string[] {
+  const expected: Record<string, string> = {
+    random_seed: String(participant.randomSeed),
+    ...getAllocationCodes(data, participant),
+  };
+  const drift: string[] = [];
+  for (const [field, value] of Object.entries(expected)) {
+    const stored = record.values[field];
+    if (stored !== undefined && stored !== value) {
+      drift.push(`Participant #${participant.recordId}: ${field} is ${stored} in REDCap, ${value} here`);
+    }
+  }
+  for (const factor of getFactors(data)) {
+    const field = toRedcapFieldName(factor.id);
+    const value = record.values[field];
+    const level = participant.strata?.[factor.id];
+    const redcapLevel = readLevel(factor, value);
+    if (value !== undefined && redcapLevel !== level) {
+      drift.push(`Participant #${participant.recordId}: ${field} is ${redcapLevel ?? value} in REDCap, ${level ?? 'not set'} here`);
+    }
+  }
+  return drift;
+}
+
+// Align the study with REDCap's records: records missing here are enrolled
+// under their REDCap record ID (in ascending order; IDs skipped in REDCap are
+// skipped here too). Record IDs that were issued here before but no longer
+// exist are never reused, so those records are reported instead.
+export function alignWithRedcap(data: ExperimentData, records: RedcapRecord[]): RedcapAlignment {
+  const factors = getFactors(data);
+  const problems: string[] = [];
+  const matched: number[] = [];
+  const toCreate: { recordId: number; record: RedcapRecord }[] = [];
+  const lastIssued = Math.max(data.lastRecordId ?? 0, ...data.participants.map(p => p.recordId));
+
+  for (const record of records) {
+    const recordId = Number(record.recordId);
+    if (!Number.isInteger(recordId) || recordId <= 0) {
+      problems.push(`REDCap record "${record.recordId}": not a numeric record ID`);
+      continue;
+    }
+    const participant = data.participants.find(p => p.recordId === recordId);
+    if (participant) {
+      matched.push(recordId);
+      problems.push(...findDrift(data, participant, record));
+    } else if (recordId <= lastIssued) {
+      problems.push(`REDCap record ${recordId}: this record ID was already issued here and has been deleted`);
+    } else {
+      toCreate.push({ recordId, record });
+    }
+  }
+
+  let aligned = data;
+  const created: number[] = [];
+  for (const { recordId, record } of toCreate.sort((a, b) => a.recordId - b.recordId)) {
+    if (aligned.participants.length >= MAX_PARTICIPANTS) {
+      problems.push(`REDCap record ${recordId}: the study already has ${MAX_PARTICIPANTS} participants`);
+      continue;
+    }
+    const strata = factors.length > 0 ? readStrata(factors, record) : undefined;
+    if (typeof strata === 'string') {
+      problems.push(`REDCap record ${recordId}: ${strata}`);
+      continue;
+    }
+    aligned = addParticipant(aligned, strata, recordId);
+    created.push(recordId);
+  }
+
+  const redcapIds = new Set(records.map(r => Number(r.recordId)));
+  return {
+    data: aligned,
+    created,
+    matched,
+    notInRedcap: data.participants.map(p => p.recordId).filter(id => !redcapIds.has(id)),
+    problems,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Storage Backend
+ *
+ * All persistence goes through this interface, so the app can run against
+ * Firestore or a self-hosted JSON file behind the /api/storage route.
+ * Set NEXT_PUBLIC_STORAGE_BACKEND=local for the file backend; Firestore is
+ * the default.
+ *
+ * Paths are slash-separated like Firestore paths: 'experiments/main' is a
+ * document, 'experiments/main/snapshots' a collection below it.
+ */
+
+import { createFirestoreBackend } from './firestoreStorage';
+import { createFileBackend } from './fileStorage';
+
+export interface ListOptions {
+  orderBy?: string; // Field to sort by
+  direction?: 'asc' | 'desc';
+  limit?: number;
+}
+
+// Reads and writes of one runTransaction call. All reads must come before
+// the first write; the writes are applied together when the callback returns.
+export interface StorageTransaction {
+  get<T>(path: string): Promise<T | null>;
+  set<T>(path: string, data: T): void;
+  delete(path: string): void;
+}
+
+export interface StorageBackend {
+  get<T>(path: string): Promise<T | null>;
+  set<T>(path: string, data: T): Promise<void>;
+  delete(path: string): Promise<void>;
+  add<T>(collectionPath: string, data: T): Promise<void>;
+  list<T>(collectionPath: string, options?: ListOptions): Promise<T[]>;
+  count(collectionPath: string): Promise<number>;
+  // Runs the callback and applies its writes atomically; the callback is run
+  // again if another client changed a document it read in between
+  runTransaction<R>(run: (transaction: StorageTransaction) => Promise<R>): Promise<R>;
+  // Calls onData with the current document and again whenever it changes
+  subscribe<T>(path: string, onData: (data: T | null) => void, onError: (error: Error) => void): () => void;
+  // Calls onData with every document in the collection and again whenever
+  // one of them changes
+  subscribeCollection<T>(collectionPath: string, onData: (items: T[]) => void, onError: (error: Error) => void): () => void;
+}
+
+export type StorageBackendName = 'firestore' | 'local';
+
+export function getStorageBackendName(): StorageBackendName {
+  return process.env.NEXT_PUBLIC_STORAGE_BACKEND === 'local' ? 'local' : 'firestore';
+}
+
+let backend: StorageBackend | null = null;
+
+// The backend is created on first use, so Firebase is only initialized when
+// it is actually used
+export function getStorage(): StorageBackend {
+  if (!backend) {
+    backend = getStorageBackendName() === 'local' ? createFileBackend() : createFirestoreBackend();
+  }
+  return backend;
+}
+
+// Reject when a storage call takes longer than 10s
+export function withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    setTimeout(() => reject(new Error(message)), 10000);
+  });
+  return Promise.race([promise, timeoutPromise]);
+}
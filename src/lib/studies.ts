@@ -0,0 +1,138 @@
+/**
+ * Study Registry
+ *
+ * Each study keeps its randomization in its own experiments/{studyId}
+ * document. This module keeps the list of studies (name, archived state) in
+ * the studies collection, with localStorage as backup like the study data.
+ */
+
+import { DEFAULT_STUDY_ID } from './randomization';
+import { getStorage, withTimeout } from './storage';
+
+export interface StudyInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+  archivedAt?: string;
+}
+
+const STUDIES_COLLECTION = 'studies';
+const STUDY_LIST_KEY = 'compressibility-study-list';
+const CURRENT_STUDY_KEY = 'compressibility-current-study';
+
+// The study that existed before multiple studies were supported
+const DEFAULT_STUDY: StudyInfo = {
+  id: DEFAULT_STUDY_ID,
+  name: 'Main Study',
+  createdAt: new Date(0).toISOString(),
+};
+
+// Oldest first, and the default study is always listed
+function normalizeStudies(studies: StudyInfo[]): StudyInfo[] {
+  const list = studies.some(s => s.id === DEFAULT_STUDY_ID) ? studies : [DEFAULT_STUDY, ...studies];
+  return [...list].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+function saveStudyListToLocalStorage(studies: StudyInfo[]): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(STUDY_LIST_KEY, JSON.stringify(studies));
+  }
+}
+
+function loadStudyListFromLocalStorage(): StudyInfo[] {
+  if (typeof window !== 'undefined') {
+    const stored = localStorage.getItem(STUDY_LIST_KEY);
+    if (stored) {
+      try {
+        return normalizeStudies(JSON.parse(stored));
+      } catch {
+        // Fall through to the default list
+      }
+    }
+  }
+  return [DEFAULT_STUDY];
+}
+
+// Load the list of studies, falling back to localStorage when offline
+export async function loadStudies(): Promise<StudyInfo[]> {
+  try {
+    const stored = await withTimeout(
+      getStorage().list<StudyInfo>(STUDIES_COLLECTION),
+      'Database timeout after 10s'
+    );
+    const studies = normalizeStudies(stored);
+    saveStudyListToLocalStorage(studies);
+    return studies;
+  } catch {
+    return loadStudyListFromLocalStorage();
+  }
+}
+
+// Save one study's entry; the local list is updated even when the database is unreachable
+async function saveStudy(study: StudyInfo, studies: StudyInfo[]): Promise<StudyInfo[]> {
+  const updated = normalizeStudies([...studies.filter(s => s.id !== study.id), study]);
+  saveStudyListToLocalStorage(updated);
+  try {
+    await withTimeout(
+      getStorage().set(`${STUDIES_COLLECTION}/${study.id}`, study),
+      'Database save timeout after 10s'
+    );
+  } catch (error) {
+    console.error('Error saving study:', error);
+  }
+  return updated;
+}
+
+// Create an empty study; its data document is written on first save
+export async function createStudy(name: string, studies: StudyInfo[]): Promise<{ study: StudyInfo; studies: StudyInfo[] }> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Study name cannot be empty');
+  }
+  const study: StudyInfo = {
+    id: `study-${Date.now().toString(36)}`,
+    name: trimmed,
+    createdAt: new Date().toISOString(),
+  };
+  return { study, studies: await saveStudy(study, studies) };
+}
+
+export async function renameStudy(studyId: string, name: string, studies: StudyInfo[]): Promise<StudyInfo[]> {
+  const study = studies.find(s => s.id === studyId);
+  if (!study) {
+    throw new Error(`Study ${studyId} not found`);
+  }
+  if (!name.trim()) {
+    throw new Error('Study name cannot be empty');
+  }
+  return saveStudy({ ...study, name: name.trim() }, studies);
+}
+
+// Archived studies keep their data but are hidden from the study switcher
+export async function setStudyArchived(studyId: string, archived: boolean, studies: StudyInfo[]): Promise<StudyInfo[]> {
+  const study = studies.find(s => s.id === studyId);
+  if (!study) {
+    throw new Error(`Study ${studyId} not found`);
+  }
+  const updated: StudyInfo = { ...study };
+  if (archived) {
+    updated.archivedAt = new Date().toISOString();
+  } else {
+    delete updated.archivedAt;
+  }
+  return saveStudy(updated, studies);
+}
+
+// The study that was open last on this device
+export function getCurrentStudyId(): string {
+  if (typeof window !== 'undefined') {
+    return localStorage.getItem(CURRENT_STUDY_KEY) ?? DEFAULT_STUDY_ID;
+  }
+  return DEFAULT_STUDY_ID;
+}
+
+export function setCurrentStudyId(studyId: string): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(CURRENT_STUDY_KEY, studyId);
+  }
+}
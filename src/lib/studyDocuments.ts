@@ -0,0 +1,160 @@
+/**
+ * Study Documents
+ *
+ * A study is stored as one document per participant under
+ * experiments/{studyId}/participants/{recordId}, and a parent document
+ * experiments/{studyId} with the study metadata and the list of record IDs.
+ * This keeps every document well below Firestore's 1 MiB limit as results
+ * are recorded. Saves only write the participants that changed.
+ *
+ * Participants are stored in the study's storage format (see
+ * compactStorage.ts). Studies saved before the split keep their participants
+ * inline in the parent document; they are read as they are and split on the
+ * next save.
+ */
+
+import { ExperimentData, Participant, getStudyPath } from './randomization';
+import { getStorage, StorageTransaction } from './storage';
+import { stableStringify } from './sync';
+import { toStoredParticipant } from './compactStorage';
+
+// Parent document: everything but the participants
+export type StoredStudy = Omit<ExperimentData, 'participants'> & {
+  participantIds: number[]; // Record IDs in display order
+};
+
+// A parent document as read, of any layout or schema version
+type RawStudyDocument = Record<string, unknown>;
+
+type DocumentReader = Pick<StorageTransaction, 'get'>;
+type DocumentWriter = Pick<StorageTransaction, 'set' | 'delete'>;
+
+function getParticipantsPath(studyId: string): string {
+  return `${getStudyPath(studyId)}/participants`;
+}
+
+function getParticipantPath(studyId: string, recordId: number): string {
+  return `${getParticipantsPath(studyId)}/${recordId}`;
+}
+
+function isInline(study: RawStudyDocument): boolean {
+  return Array.isArray(study.participants);
+}
+
+function getParticipantIds(study: RawStudyDocument): number[] {
+  return Array.isArray(study.participantIds) ? study.participantIds : [];
+}
+
+// Raw study data from the parent document and its participants, in the
+// order of participantIds. A missing participant document is left in as
+// null, so validation reports it.
+function assemble(study: RawStudyDocument, participants: unknown[]): unknown {
+  const data: RawStudyDocument = { ...study, participants };
+  delete data.participantIds;
+  return data;
+}
+
+// Record IDs of stored participants, skipping damaged entries
+function getRecordIds(stored: readonly unknown[]): number[] {
+  return stored
+    .map(participant => (participant as Participant | null)?.recordId)
+    .filter((recordId): recordId is number => typeof recordId === 'number');
+}
+
+// Read a study (unvalidated, possibly of an old schema), or null when it
+// doesn't exist
+export async function readStudyDocuments(reader: DocumentReader, studyId: string): Promise<unknown> {
+  const study = await reader.get<RawStudyDocument>(getStudyPath(studyId));
+  if (!study || isInline(study)) return study;
+  const participants = await Promise.all(getParticipantIds(study).map(id => reader.get(getParticipantPath(studyId, id))));
+  return assemble(study, participants);
+}
+
+// Write a study over the stored version read in the same transaction:
+// participants that changed are written and removed ones deleted. With
+// rewrite, every participant is written (e.g. after a schema upgrade or a
+// change of storage format).
+export function writeStudyDocuments(
+  writer: DocumentWriter,
+  studyId: string,
+  data: ExperimentData,
+  stored: readonly unknown[],
+  rewrite = false
+): void {
+  const { participants, ...metadata } = data;
+  writer.set<StoredStudy>(getStudyPath(studyId), {
+    ...metadata,
+    participantIds: participants.map(p => p.recordId),
+  });
+
+  const storedById = new Map<number, unknown>();
+  for (const participant of stored) {
+    const recordId = (participant as Participant | null)?.recordId;
+    if (typeof recordId === 'number') storedById.set(recordId, participant);
+  }
+  for (const participant of participants) {
+    const previous = storedById.get(participant.recordId);
+    if (rewrite || previous === undefined || stableStringify(previous) !== stableStringify(participant)) {
+      writer.set(getParticipantPath(studyId, participant.recordId), toStoredParticipant(data, participant));
+    }
+    storedById.delete(participant.recordId);
+  }
+  for (const recordId of storedById.keys()) {
+    writer.delete(getParticipantPath(studyId, recordId));
+  }
+}
+
+// Replace whatever is stored with the given data (or delete the study)
+export function replaceStudyDocuments(studyId: string, data: ExperimentData | null): Promise<void> {
+  return getStorage().runTransaction(async (transaction) => {
+    const stored = await readStudyDocuments(transaction, studyId) as { participants?: unknown } | null;
+    const storedParticipants = Array.isArray(stored?.participants) ? stored.participants : [];
+    if (data) {
+      writeStudyDocuments(transaction, studyId, data, storedParticipants, true);
+      return;
+    }
+    transaction.delete(getStudyPath(studyId));
+    for (const recordId of getRecordIds(storedParticipants)) {
+      transaction.delete(getParticipantPath(studyId, recordId));
+    }
+  });
+}
+
+// Listen to a study's documents; onData receives the raw study data (or
+// null when there is none) whenever it changes. Returns a function that
+// stops listening.
+export function subscribeToStudyDocuments(
+  studyId: string,
+  onData: (rawData: unknown) => void,
+  onError: (error: Error) => void
+): () => void {
+  let study: RawStudyDocument | null | undefined;
+  let participants: Map<number, unknown> | undefined;
+
+  const emit = () => {
+    if (study === undefined || participants === undefined) return;
+    if (!study || isInline(study)) {
+      onData(study && structuredClone(study));
+      return;
+    }
+    // The parent and the participants arrive separately; wait until every
+    // listed participant is there
+    const ids = getParticipantIds(study);
+    if (!ids.every(id => participants!.has(id))) return;
+    onData(structuredClone(assemble(study, ids.map(id => participants!.get(id)))));
+  };
+
+  const unsubscribeStudy = getStorage().subscribe<RawStudyDocument>(getStudyPath(studyId), (data) => {
+    study = data;
+    emit();
+  }, onError);
+  const unsubscribeParticipants = getStorage().subscribeCollection<Participant>(getParticipantsPath(studyId), (items) => {
+    participants = new Map(items.map(p => [p.recordId, p]));
+    emit();
+  }, onError);
+
+  return () => {
+    unsubscribeStudy();
+    unsubscribeParticipants();
+  };
+}
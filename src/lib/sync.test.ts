@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  addParticipant,
+  generateExperimentData,
+  recordMeasurementResult,
+  removeParticipant,
+  setSessionStatus,
+  withdrawParticipant,
+} from './randomization';
+import { describeConflict, isSameData, mergeExperimentData } from './sync';
+
+const KEY = { sessionNumber: 1, modality: 'ultrasound', modelType: 'ball', repetition: 1, modelOrder: 1 } as const;
+
+describe('three-way merge', () => {
+  const base = generateExperimentData(4, { masterSeed: 2024 });
+
+  it('takes the remote version when nothing changed here', () => {
+    const remote = withdrawParticipant(base, 2, 'Ill');
+    const result = mergeExperimentData(base, base, remote);
+    assert.equal(result.data, remote);
+    assert.deepEqual(result.conflicts, []);
+  });
+
+  it('keeps local edits when the remote version is unchanged', () => {
+    const local = setSessionStatus(base, 1, 1, 'completed');
+    const result = mergeExperimentData(base, local, base);
+    assert.equal(result.data, local);
+    assert.deepEqual(result.conflicts, []);
+  });
+
+  it('merges edits of different participants', () => {
+    const local = withdrawParticipant(base, 1, 'Moved away');
+    const remote = recordMeasurementResult(base, 3, KEY, { rating: 2 });
+    const result = mergeExperimentData(base, local, remote);
+    assert.deepEqual(result.conflicts, []);
+    assert.deepEqual(result.data.participants[0], local.participants[0]);
+    assert.deepEqual(result.data.participants[2], remote.participants[2]);
+    assert.equal(result.data.summary.withdrawnParticipants, 1);
+  });
+
+  it('reports a participant changed on both sides and takes the preferred side', () => {
+    const local = recordMeasurementResult(base, 2, KEY, { rating: 1 });
+    const remote = recordMeasurementResult(base, 2, KEY, { rating: 5 });
+
+    const preferRemote = mergeExperimentData(base, local, remote);
+    assert.equal(preferRemote.conflicts.length, 1);
+    const [conflict] = preferRemote.conflicts;
+    assert.equal(conflict.recordId, 2);
+    assert.equal(conflict.local, local.participants[1]);
+    assert.equal(conflict.remote, remote.participants[1]);
+    assert.equal(describeConflict(conflict), 'Participant #2 was changed on both devices');
+    assert.deepEqual(preferRemote.data.participants[1], remote.participants[1]);
+
+    const preferLocal = mergeExperimentData(base, local, remote, 'local');
+    assert.deepEqual(preferLocal.data.participants[1], local.participants[1]);
+  });
+
+  it('reports a participant removed on one side and changed on the other', () => {
+    const local = removeParticipant(base, 4);
+    const remote = setSessionStatus(base, 4, 1, 'missed');
+    const result = mergeExperimentData(base, local, remote);
+    assert.deepEqual(result.conflicts.map(c => describeConflict(c)), ['Participant #4 was removed here but changed on another device']);
+    assert.equal(result.data.participants.length, 4);
+  });
+
+  it('reports two devices enrolling the same record ID', () => {
+    const local = addParticipant(base);
+    const remote = addParticipant(setSessionStatus(base, 1, 1, 'missed'));
+    // Same seed drawn on both devices: identical allocations merge cleanly
+    assert.deepEqual(mergeExperimentData(base, local, remote).conflicts, []);
+
+    const otherSeed = { ...remote, participants: remote.participants.map(p => p.recordId === 5 ? { ...p, randomSeed: p.randomSeed + 1 } : p) };
+    const result = mergeExperimentData(base, local, otherSeed);
+    assert.deepEqual(result.conflicts.map(c => c.recordId), [5]);
+    assert.equal(result.data.lastRecordId, 5);
+    assert.equal(result.data.seedsIssued, 5);
+  });
+
+  it('refuses to merge participants of a regenerated study', () => {
+    const local = withdrawParticipant(base, 1, 'Ill');
+    const remote = { ...generateExperimentData(4, { masterSeed: 99 }), generatedAt: '2099-01-01T00:00:00.000Z' };
+    const result = mergeExperimentData(base, local, remote);
+    assert.deepEqual(result.conflicts, [{ recordId: null, local: null, remote: null }]);
+    assert.equal(result.data, remote);
+    assert.equal(mergeExperimentData(base, local, remote, 'local').data, local);
+  });
+
+  it('treats every difference as a conflict without a base', () => {
+    const local = withdrawParticipant(base, 1, 'Ill');
+    const result = mergeExperimentData(null, local, base);
+    assert.deepEqual(result.conflicts.map(c => c.recordId), [1]);
+    assert.ok(isSameData(result.data, base));
+  });
+});
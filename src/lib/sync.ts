@@ -0,0 +1,198 @@
+/**
+ * Live Sync
+ *
+ * Keeps a study in sync between devices. Every device subscribes to the
+ * study's documents, and saves go through a transaction that merges local edits
+ * with whatever another device wrote since, participant by participant.
+ * When both sides changed the same participant (or one regenerated the whole
+ * study) the change is reported as a conflict instead of being overwritten.
+ */
+
+import {
+  ExperimentData,
+  Participant,
+  updateSummary,
+  saveToLocalStorage,
+} from './randomization';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion } from './migrations';
+import { parseExperimentData } from './validation';
+import { getStorage, withTimeout } from './storage';
+import { readStudyDocuments, subscribeToStudyDocuments, writeStudyDocuments } from './studyDocuments';
+
+export type ConflictSide = 'local' | 'remote';
+
+// A participant (or, with recordId null, the whole study) changed on both sides
+export interface SyncConflict {
+  recordId: number | null;
+  local: Participant | null;
+  remote: Participant | null;
+}
+
+export interface MergeResult {
+  data: ExperimentData;
+  conflicts: SyncConflict[];
+}
+
+export interface SaveResult extends MergeResult {
+  remote: ExperimentData | null; // Server version the local data was merged with
+}
+
+// JSON with sorted object keys; Firestore does not preserve key order
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+export function isSameData(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return stableStringify(a) === stableStringify(b);
+}
+
+// Three-way merge of local edits and a remote version, both derived from the
+// base version last synced (null if this device never synced). Conflicting
+// parts are taken from the preferred side (remote by default) and listed.
+export function mergeExperimentData(
+  base: ExperimentData | null,
+  local: ExperimentData,
+  remote: ExperimentData,
+  prefer: ConflictSide = 'remote'
+): MergeResult {
+  if (isSameData(local, remote) || (base && isSameData(local, base))) {
+    return { data: remote, conflicts: [] };
+  }
+  if (base && isSameData(remote, base)) {
+    return { data: local, conflicts: [] };
+  }
+
+  // Participants of different randomizations can't be merged
+  if (local.generatedAt !== remote.generatedAt) {
+    return {
+      data: prefer === 'local' ? local : remote,
+      conflicts: [{ recordId: null, local: null, remote: null }],
+    };
+  }
+
+  const find = (data: ExperimentData | null, recordId: number) =>
+    data?.participants.find(p => p.recordId === recordId);
+  const recordIds = [...new Set([...local.participants, ...remote.participants].map(p => p.recordId))]
+    .sort((a, b) => a - b);
+
+  const participants: Participant[] = [];
+  const conflicts: SyncConflict[] = [];
+  for (const recordId of recordIds) {
+    const b = find(base, recordId);
+    const l = find(local, recordId);
+    const r = find(remote, recordId);
+
+    // Two devices enrolling at once draw the same record ID; different
+    // allocations for it end up here as a conflict
+    let merged: Participant | undefined;
+    if (isSameData(l, r) || isSameData(l, b)) {
+      merged = r;
+    } else if (isSameData(r, b)) {
+      merged = l;
+    } else {
+      conflicts.push({ recordId, local: l ?? null, remote: r ?? null });
+      merged = prefer === 'local' ? l : r;
+    }
+    if (merged) participants.push(merged);
+  }
+
+  const maxOf = (a?: number, b?: number) =>
+    a === undefined && b === undefined ? undefined : Math.max(a ?? 0, b ?? 0);
+  const seedsIssued = maxOf(local.seedsIssued, remote.seedsIssued);
+  const lastRecordId = maxOf(local.lastRecordId, remote.lastRecordId);
+
+  const data = updateSummary({
+    ...remote,
+    ...(seedsIssued !== undefined && { seedsIssued }),
+    ...(lastRecordId !== undefined && { lastRecordId }),
+    participants,
+  });
+  return { data, conflicts };
+}
+
+// Describe a conflict for the person resolving it
+export function describeConflict(conflict: SyncConflict): string {
+  if (conflict.recordId === null) {
+    return 'The study was regenerated on another device while it was being edited here';
+  }
+  const label = `Participant #${conflict.recordId}`;
+  if (!conflict.local) return `${label} was removed here but changed on another device`;
+  if (!conflict.remote) return `${label} was changed here but removed on another device`;
+  return `${label} was changed on both devices`;
+}
+
+// Listen to a study document; the callback receives null when the study
+// does not exist yet, and data of an unsupported schema or that fails
+// validation is reported as an error. Returns a function that stops listening.
+export function subscribeToStudy(
+  studyId: string,
+  onData: (data: ExperimentData | null) => void,
+  onError: (error: Error) => void
+): () => void {
+  return subscribeToStudyDocuments(
+    studyId,
+    (rawData) => {
+      if (!rawData) {
+        onData(null);
+        return;
+      }
+      let data: ExperimentData;
+      try {
+        data = parseExperimentData(rawData);
+      } catch (error) {
+        onError(error as Error);
+        return;
+      }
+      saveToLocalStorage(data, studyId);
+      onData(data);
+    },
+    onError
+  );
+}
+
+// Save local edits made since the base version. The server copy is read in
+// the same transaction and merged; nothing is written when there are
+// conflicts, unless a side to prefer is given.
+export async function saveMerged(
+  studyId: string,
+  base: ExperimentData | null,
+  local: ExperimentData,
+  prefer?: ConflictSide
+): Promise<SaveResult> {
+  const update = getStorage().runTransaction<SaveResult>(async (transaction) => {
+    const rawData = await readStudyDocuments(transaction, studyId);
+    // An outdated server copy is rewritten in the current schema
+    const isOutdated = rawData !== null && getSchemaVersion(rawData) < CURRENT_SCHEMA_VERSION;
+    const remote = rawData ? parseExperimentData(rawData) : null;
+    if (!remote) {
+      writeStudyDocuments(transaction, studyId, local, []);
+      return { data: local, conflicts: [], remote };
+    }
+
+    const result = mergeExperimentData(base, local, remote, prefer);
+    const isWritten = (result.conflicts.length === 0 || prefer) && (isOutdated || !isSameData(result.data, remote));
+    if (isWritten) {
+      // Only the participants that changed are written, unless the layout changes
+      const rewrite = isOutdated || result.data.storageFormat !== remote.storageFormat;
+      writeStudyDocuments(transaction, studyId, result.data, remote.participants, rewrite);
+    }
+    return { ...result, remote };
+  });
+
+  try {
+    const result = await withTimeout(update, 'Database save timeout after 10s');
+    const isWritten = result.conflicts.length === 0 || prefer !== undefined;
+    saveToLocalStorage(isWritten ? result.data : local, studyId);
+    return result;
+  } catch (error) {
+    // Keep the edits on this device until the next save
+    saveToLocalStorage(local, studyId);
+    throw error;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Data Validation
+ *
+ * Stored and imported study data is only JSON until it has been checked.
+ * These checks run after schema migrations and compare the structure with
+ * the study design: the number of sessions, the models in every block, the
+ * repetitions of every model, unique IDs and the summary counts. Data that
+ * fails is refused with a readable list of problems instead of being shown
+ * (or saved over).
+ */
+
+import {
+  ExperimentData,
+  ModelType,
+  StudyDesign,
+  SESSION_STATUSES,
+  computeSummary,
+  getMeasurementsPerSession,
+  isWithdrawn,
+} from './randomization';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, upgradeExperimentData } from './migrations';
+import { expandExperimentData } from './compactStorage';
+
+// Stop listing problems after this many
+const MAX_REPORTED_PROBLEMS = 30;
+
+export interface ValidationReport {
+  valid: boolean;
+  problems: string[];
+  totalProblems: number;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// A field of something that may not be an object
+function fieldOf(value: unknown, key: string): unknown {
+  return isObject(value) ? value[key] : undefined;
+}
+
+function hasStringId(value: unknown): boolean {
+  return typeof fieldOf(value, 'id') === 'string';
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function sameIds(actual: unknown, expected: string[]): boolean {
+  return Array.isArray(actual) &&
+    actual.length === expected.length &&
+    [...actual].sort().join(',') === [...expected].sort().join(',');
+}
+
+function checkDesign(design: unknown, out: string[]): design is StudyDesign {
+  if (!isObject(design)) {
+    out.push('Study design is missing');
+    return false;
+  }
+  const before = out.length;
+  if (!Array.isArray(design.modalities) || design.modalities.length === 0 || !design.modalities.every(hasStringId)) {
+    out.push('Study design has no valid modalities');
+  }
+  for (const modelType of ['ball', 'balloon'] as const) {
+    const definition: unknown = Array.isArray(design.modelTypes) ? design.modelTypes.find(t => fieldOf(t, 'id') === modelType) : undefined;
+    const models = fieldOf(definition, 'models');
+    if (!Array.isArray(models) || models.length === 0 || !models.every(hasStringId)) {
+      out.push(`Study design has no valid "${modelType}" models`);
+    }
+  }
+  if (!isPositiveInteger(design.repetitions)) out.push('Study design repetitions must be a positive whole number');
+  if (!isPositiveInteger(design.sessionsPerParticipant)) out.push('Study design sessions per participant must be a positive whole number');
+  return out.length === before;
+}
+
+function checkBlock(design: StudyDesign, modelType: ModelType, block: unknown, where: string, out: string[]): void {
+  if (!isObject(block)) {
+    out.push(`${where}: block missing`);
+    return;
+  }
+  const modelIds: string[] = design.modelTypes.find(t => t.id === modelType)!.models.map(m => m.id);
+  if (block.modelType !== modelType) {
+    out.push(`${where}: block is for "${block.modelType}" models`);
+  }
+  if (!Array.isArray(block.models) || !sameIds(block.models.map(m => fieldOf(m, 'id')), modelIds)) {
+    out.push(`${where}: expected models ${modelIds.join(', ')}`);
+  }
+  const measurements = block.measurements;
+  if (!Array.isArray(measurements)) {
+    out.push(`${where}: measurements missing`);
+    return;
+  }
+  const expectedCount = modelIds.length * design.repetitions;
+  if (measurements.length !== expectedCount) {
+    out.push(`${where}: ${measurements.length} measurements, expected ${expectedCount}`);
+  }
+  // Every model is measured exactly once per repetition
+  for (let repetition = 1; repetition <= design.repetitions; repetition++) {
+    const measured = measurements.filter(m => fieldOf(m, 'repetition') === repetition).map(m => fieldOf(m, 'modelId'));
+    if (!sameIds(measured, modelIds)) {
+      out.push(`${where}, rep ${repetition}: measured ${measured.join(', ') || 'nothing'}, expected each of ${modelIds.join(', ')} once`);
+    }
+  }
+  const stray = measurements.filter(m => {
+    const repetition = fieldOf(m, 'repetition');
+    return !isPositiveInteger(repetition) || repetition > design.repetitions;
+  });
+  if (stray.length > 0) {
+    out.push(`${where}: ${stray.length} measurements outside repetitions 1–${design.repetitions}`);
+  }
+}
+
+function checkSession(design: StudyDesign, session: unknown, index: number, where: string, out: string[]): void {
+  const sessionWhere = `${where}, session ${index + 1}`;
+  if (!isObject(session)) {
+    out.push(`${sessionWhere}: missing`);
+    return;
+  }
+  if (session.sessionNumber !== index + 1) {
+    out.push(`${sessionWhere}: numbered ${session.sessionNumber}`);
+  }
+  if (session.status !== undefined && !SESSION_STATUSES.some(status => status === session.status)) {
+    out.push(`${sessionWhere}: unknown status "${session.status}"`);
+  }
+
+  const modalityIds = design.modalities.map(m => m.id);
+  const orders: [string, string[]][] = [
+    ['modalityOrder', modalityIds],
+    ['modelTypeOrder', ['ball', 'balloon']],
+    ['ballSphereOrder', design.modelTypes.find(t => t.id === 'ball')!.models.map(m => m.id)],
+    ['balloonOrder', design.modelTypes.find(t => t.id === 'balloon')!.models.map(m => m.id)],
+  ];
+  for (const [field, ids] of orders) {
+    if (!sameIds(session[field], ids)) {
+      out.push(`${sessionWhere}: ${field} must contain each of ${ids.join(', ')} once`);
+    }
+  }
+
+  const modalityOrder = session.modalityOrder;
+  if (!Array.isArray(session.modalities) || session.modalities.length !== modalityIds.length) {
+    out.push(`${sessionWhere}: expected ${modalityIds.length} modality blocks`);
+    return;
+  }
+  session.modalities.forEach((block: unknown, idx: number) => {
+    const modality: unknown = Array.isArray(modalityOrder) ? modalityOrder[idx] : undefined;
+    const blockWhere = `${sessionWhere} · ${fieldOf(block, 'modality') ?? `block ${idx + 1}`}`;
+    if (fieldOf(block, 'modality') !== modality) {
+      out.push(`${blockWhere}: found at position ${idx + 1}, expected ${modality ?? 'nothing'}`);
+    }
+    checkBlock(design, 'ball', fieldOf(block, 'ballBlock'), `${blockWhere} · ball`, out);
+    checkBlock(design, 'balloon', fieldOf(block, 'balloonBlock'), `${blockWhere} · balloon`, out);
+  });
+
+  const measurementsPerSession = getMeasurementsPerSession(design);
+  if (session.totalMeasurements !== measurementsPerSession) {
+    out.push(`${sessionWhere}: totalMeasurements is ${session.totalMeasurements}, expected ${measurementsPerSession}`);
+  }
+}
+
+function checkSummary(data: ExperimentData, out: string[]): void {
+  if (!isObject(data.summary)) {
+    out.push('Summary is missing');
+    return;
+  }
+  const withdrawn = data.participants.filter(p => isObject(p) && isWithdrawn(p)).length;
+  const expected = computeSummary(data.design, data.participants.length, withdrawn);
+  for (const [key, value] of Object.entries(expected)) {
+    const stored = (data.summary as Record<string, unknown>)[key];
+    // Counts added later may be missing from older data
+    if (stored !== undefined && stored !== value) {
+      out.push(`Summary ${key} is ${stored}, expected ${value}`);
+    }
+  }
+}
+
+// Check the structure and invariants of (migrated) study data
+export function validateExperimentData(data: unknown): ValidationReport {
+  const problems: string[] = [];
+
+  if (!isObject(data)) {
+    problems.push('Study data is not an object');
+  } else if (checkDesign(data.design, problems)) {
+    const design = data.design as StudyDesign;
+    if (typeof data.generatedAt !== 'string') {
+      problems.push('Generation date is missing');
+    }
+    if (!Array.isArray(data.participants)) {
+      problems.push('Participants list is missing');
+    } else {
+      const recordIds = new Set<number>();
+      data.participants.forEach((participant: unknown, idx: number) => {
+        if (!isObject(participant)) {
+          problems.push(`Participant at position ${idx + 1}: missing`);
+          return;
+        }
+        const { recordId, sessions } = participant;
+        const where = recordId !== undefined ? `Participant #${recordId}` : `Participant at position ${idx + 1}`;
+        if (!isPositiveInteger(recordId)) {
+          problems.push(`${where}: record ID must be a positive whole number`);
+        } else if (recordIds.has(recordId)) {
+          problems.push(`${where}: record ID is used more than once`);
+        } else {
+          recordIds.add(recordId);
+        }
+        if (!Number.isInteger(participant.randomSeed)) {
+          problems.push(`${where}: random seed is missing`);
+        }
+        if (!Array.isArray(sessions)) {
+          problems.push(`${where}: sessions missing`);
+          return;
+        }
+        if (sessions.length !== design.sessionsPerParticipant) {
+          problems.push(`${where}: ${sessions.length} sessions, expected ${design.sessionsPerParticipant}`);
+        }
+        sessions.forEach((session: unknown, sessionIdx: number) => checkSession(design, session, sessionIdx, where, problems));
+      });
+
+      const highest = Math.max(0, ...recordIds);
+      const lastRecordId = data.lastRecordId;
+      if (lastRecordId !== undefined && !(typeof lastRecordId === 'number' && Number.isInteger(lastRecordId) && lastRecordId >= highest)) {
+        problems.push(`Last issued record ID is ${lastRecordId}, but participant #${highest} exists`);
+      }
+      checkSummary(data as unknown as ExperimentData, problems);
+    }
+  }
+
+  return {
+    valid: problems.length === 0,
+    problems: problems.slice(0, MAX_REPORTED_PROBLEMS),
+    totalProblems: problems.length,
+  };
+}
+
+// Readable lines for a failed report
+export function formatValidationReport(report: ValidationReport): string[] {
+  const lines = [...report.problems];
+  if (report.totalProblems > report.problems.length) {
+    lines.push(`… ${report.totalProblems - report.problems.length} more`);
+  }
+  return lines;
+}
+
+function isValidationReport(value: unknown): value is ValidationReport {
+  return isObject(value) && Array.isArray(value.problems) && typeof value.totalProblems === 'number';
+}
+
+// The problems behind an error thrown by parseExperimentData, or an empty
+// list for other errors
+export function getValidationProblems(error: unknown): string[] {
+  const cause = error instanceof Error ? error.cause : undefined;
+  return isValidationReport(cause) ? formatValidationReport(cause) : [];
+}
+
+function invalidDataError(report: ValidationReport): Error {
+  return new Error(
+    `The study data is damaged or incomplete (${report.totalProblems} problem${report.totalProblems === 1 ? '' : 's'} found)`,
+    { cause: report }
+  );
+}
+
+// Upgrade raw stored or imported data to the current schema, expand compact
+// participants and validate it.
+// Throws for a newer schema, and for data that fails validation (with the
+// report as the error's cause).
+export function parseExperimentData(raw: unknown): ExperimentData {
+  let data: ExperimentData;
+  try {
+    data = expandExperimentData(upgradeExperimentData(raw).data);
+  } catch (error) {
+    // Migrations assume the structure is intact; report what is broken
+    // rather than the error it caused
+    if (getSchemaVersion(raw) <= CURRENT_SCHEMA_VERSION) {
+      const report = validateExperimentData(raw);
+      if (!report.valid) throw invalidDataError(report);
+    }
+    throw error;
+  }
+  const report = validateExperimentData(data);
+  if (!report.valid) throw invalidDataError(report);
+  return data;
+}
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExperimentData, Participant, addParticipant, generateExperimentData } from './randomization';
+import { formatIntegrityReport, verifyExperimentData, verifyParticipant } from './verification';
+
+// A copy of the study, as stored, with one participant changed
+function tamper(data: ExperimentData, recordId: number, edit: (participant: Participant) => void): ExperimentData {
+  const copy: ExperimentData = JSON.parse(JSON.stringify(data));
+  edit(copy.participants.find(p => p.recordId === recordId)!);
+  return copy;
+}
+
+describe('seed verification', () => {
+  const random = generateExperimentData(4, { masterSeed: 1001 });
+  const williams = generateExperimentData(4, { allocationMethod: 'williams', masterSeed: 1001 });
+  const stratified = addParticipant(
+    generateExperimentData(0, {
+      allocationMethod: 'stratified',
+      masterSeed: 1001,
+      stratification: { factors: [{ id: 'sex', label: 'Sex', levels: ['F', 'M'] }], blockSize: 4 },
+    }),
+    { sex: 'M' }
+  );
+
+  it('passes untouched data of every allocation method', () => {
+    for (const data of [random, williams, stratified]) {
+      const report = verifyExperimentData(data);
+      assert.ok(report.passed);
+      assert.ok(report.participants.every(p => p.passed && p.mismatches.length === 0));
+    }
+  });
+
+  it('detects a changed seed', () => {
+    const report = verifyExperimentData(tamper(random, 2, p => { p.randomSeed += 1; }));
+    assert.equal(report.passed, false);
+    assert.deepEqual(report.participants.filter(p => !p.passed).map(p => p.recordId), [2]);
+  });
+
+  it('detects swapped measurements', () => {
+    const data = tamper(random, 1, p => {
+      const measurements = p.sessions[1].modalities[0].ballBlock.measurements;
+      [measurements[0], measurements[1]] = [measurements[1], measurements[0]];
+    });
+    const result = verifyParticipant(data, data.participants[0]);
+    assert.equal(result.passed, false);
+    assert.ok(result.mismatches.every(m => m.startsWith('Session 2 · ')));
+    assert.equal(result.totalMismatches, 2);
+  });
+
+  it('detects an edited order and model', () => {
+    const data = tamper(random, 3, p => {
+      p.sessions[0].modalityOrder.reverse();
+      p.sessions[2].modalities[1].balloonBlock.measurements[0].modelName = 'Balloon X';
+    });
+    const result = verifyParticipant(data, data.participants[2]);
+    assert.ok(result.mismatches.some(m => m.startsWith('Session 1: modalityOrder is')));
+    assert.ok(result.mismatches.some(m => m.startsWith('Session 3 · ') && m.includes('Balloon X')));
+  });
+
+  it('detects a moved allocation slot', () => {
+    assert.equal(verifyExperimentData(tamper(williams, 1, p => { p.allocationIndex = 1; })).passed, false);
+    // Block size and arm count are equal, so every slot of a block has its own arm
+    assert.equal(verifyExperimentData(tamper(stratified, 1, p => { p.allocationIndex = 1; })).passed, false);
+  });
+
+  it('detects missing and extra sessions', () => {
+    const missing = tamper(random, 4, p => { p.sessions.pop(); });
+    assert.ok(verifyParticipant(missing, missing.participants[3]).mismatches.includes('Session 3: missing'));
+    const extra = tamper(random, 4, p => { p.sessions.push(structuredClone(p.sessions[0])); });
+    assert.ok(verifyParticipant(extra, extra.participants[3]).mismatches.includes('1 unexpected sessions'));
+  });
+
+  it('lists failed participants in the summary report', () => {
+    const lines = formatIntegrityReport(verifyExperimentData(tamper(random, 2, p => { p.randomSeed += 1; })));
+    assert.ok(lines.some(line => line.startsWith('- Result: FAIL (3/4')));
+    assert.ok(lines.some(line => line.startsWith('### Participant #2')));
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Seed Verification
+ *
+ * Every participant's sessions are fully determined by its random seed (plus
+ * allocation slot and strata for counterbalanced/stratified studies). These
+ * checks re-run the generator and compare the result with what is stored, to
+ * detect hand edits in Firestore or damage from data migrations. The report
+ * lists the schema migrations applied to the data, so a failure can be
+ * traced back to an upgrade.
+ */
+
+import {
+  ExperimentData,
+  Participant,
+  Session,
+  ModelTypeBlock,
+  Measurement,
+  reproduceParticipant,
+} from './randomization';
+import type { MigrationLogEntry } from './migrations';
+import { getExpandedParticipants } from './compactStorage';
+
+// Stop listing differences after this many per participant
+const MAX_REPORTED_MISMATCHES = 20;
+
+export interface ParticipantVerification {
+  recordId: number;
+  randomSeed: number;
+  algorithmVersion?: number;
+  passed: boolean;
+  mismatches: string[];
+  totalMismatches: number;
+}
+
+export interface IntegrityReport {
+  verifiedAt: string;
+  passed: boolean;
+  participants: ParticipantVerification[];
+  migrations: MigrationLogEntry[]; // Schema upgrades applied to the data, oldest first
+  storedExpanded: number[]; // Participants of a compact study that can't be stored compactly
+}
+
+function formatList(values: unknown): string {
+  return Array.isArray(values) ? values.join(' → ') : String(values);
+}
+
+function formatMeasurement(m: Measurement | undefined): string {
+  if (!m) return 'nothing';
+  return `${m.modelName} (${m.modelId})${m.color ? ` ${m.color}` : ''}`;
+}
+
+function sameMeasurement(a: Measurement | undefined, b: Measurement | undefined): boolean {
+  return !!a && !!b &&
+    a.repetition === b.repetition &&
+    a.modelOrder === b.modelOrder &&
+    a.modelId === b.modelId &&
+    a.modelName === b.modelName &&
+    a.color === b.color;
+}
+
+function compareBlocks(expected: ModelTypeBlock, actual: ModelTypeBlock | undefined, where: string, out: string[]): void {
+  if (!actual) {
+    out.push(`${where}: block missing`);
+    return;
+  }
+  if (actual.order !== expected.order) {
+    out.push(`${where}: block order ${actual.order}, expected ${expected.order}`);
+  }
+  const actualMeasurements = Array.isArray(actual.measurements) ? actual.measurements : [];
+  const count = Math.max(expected.measurements.length, actualMeasurements.length);
+  for (let i = 0; i < count; i++) {
+    const e = expected.measurements[i];
+    const a = actualMeasurements[i];
+    if (!sameMeasurement(e, a)) {
+      const position = e ? `rep ${e.repetition} #${e.modelOrder}` : `measurement ${i + 1}`;
+      out.push(`${where}, ${position}: found ${formatMeasurement(a)}, expected ${formatMeasurement(e)}`);
+    }
+  }
+}
+
+function compareSessions(expected: Session, actual: Session | undefined, out: string[]): void {
+  const where = `Session ${expected.sessionNumber}`;
+  if (!actual) {
+    out.push(`${where}: missing`);
+    return;
+  }
+
+  const orderFields = ['modalityOrder', 'modelTypeOrder', 'ballSphereOrder', 'balloonOrder'] as const;
+  for (const field of orderFields) {
+    if (formatList(actual[field]) !== formatList(expected[field])) {
+      out.push(`${where}: ${field} is ${formatList(actual[field])}, expected ${formatList(expected[field])}`);
+    }
+  }
+
+  const actualModalities = Array.isArray(actual.modalities) ? actual.modalities : [];
+  expected.modalities.forEach((modalityBlock, idx) => {
+    const stored = actualModalities[idx];
+    const modalityWhere = `${where} · ${modalityBlock.modality}`;
+    if (!stored || stored.modality !== modalityBlock.modality) {
+      out.push(`${modalityWhere}: found ${stored?.modality ?? 'nothing'} at position ${idx + 1}`);
+      return;
+    }
+    compareBlocks(modalityBlock.ballBlock, stored.ballBlock, `${modalityWhere} · ball`, out);
+    compareBlocks(modalityBlock.balloonBlock, stored.balloonBlock, `${modalityWhere} · balloon`, out);
+  });
+  if (actualModalities.length > expected.modalities.length) {
+    out.push(`${where}: ${actualModalities.length - expected.modalities.length} unexpected modality blocks`);
+  }
+}
+
+// Re-run the generator for one participant and list every difference
+export function verifyParticipant(data: ExperimentData, participant: Participant): ParticipantVerification {
+  const mismatches: string[] = [];
+
+  try {
+    const expected = reproduceParticipant(data, participant);
+    const storedSessions = Array.isArray(participant.sessions) ? participant.sessions : [];
+    expected.sessions.forEach((session, idx) => compareSessions(session, storedSessions[idx], mismatches));
+    if (storedSessions.length > expected.sessions.length) {
+      mismatches.push(`${storedSessions.length - expected.sessions.length} unexpected sessions`);
+    }
+  } catch (error) {
+    mismatches.push(`Could not regenerate from seed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return {
+    recordId: participant.recordId,
+    randomSeed: participant.randomSeed,
+    algorithmVersion: participant.algorithmVersion ?? data.algorithmVersion,
+    passed: mismatches.length === 0,
+    mismatches: mismatches.slice(0, MAX_REPORTED_MISMATCHES),
+    totalMismatches: mismatches.length,
+  };
+}
+
+// Verify every participant of a study against its seed
+export function verifyExperimentData(data: ExperimentData): IntegrityReport {
+  const participants = data.participants.map(p => verifyParticipant(data, p));
+  return {
+    verifiedAt: new Date().toISOString(),
+    passed: participants.every(p => p.passed),
+    participants,
+    migrations: data.migrationLog ?? [],
+    storedExpanded: getExpandedParticipants(data),
+  };
+}
+
+// Markdown lines describing a report, for the summary export
+export function formatIntegrityReport(report: IntegrityReport): string[] {
+  const failed = report.participants.filter(p => !p.passed);
+  const lines = [
+    '## Integrity Verification',
+    `- Verified: ${new Date(report.verifiedAt).toLocaleString()}`,
+    `- Result: ${report.passed ? 'PASS' : 'FAIL'} (${report.participants.length - failed.length}/${report.participants.length} participants match their seeds)`,
+    ...report.migrations.map(m => `- Schema upgrade to v${m.version} (${new Date(m.migratedAt).toLocaleString()}): ${m.description}`),
+    ...(report.storedExpanded.length > 0
+      ? [`- Stored in full, as their compact form doesn't reproduce them: ${report.storedExpanded.map(id => `#${id}`).join(', ')}`]
+      : []),
+    '',
+  ];
+  for (const p of failed) {
+    lines.push(`### Participant #${p.recordId} (seed ${p.randomSeed}, algorithm v${p.algorithmVersion ?? '?'}): ${p.totalMismatches} mismatches`);
+    lines.push(...p.mismatches.map(m => `- ${m}`));
+    if (p.totalMismatches > p.mismatches.length) {
+      lines.push(`- … ${p.totalMismatches - p.mismatches.length} more`);
+    }
+    lines.push('');
+  }
+  return lines;
+}
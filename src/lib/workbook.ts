@@ -0,0 +1,194 @@
+/**
+ * Excel Workbook Export
+ *
+ * Builds an .xlsx workbook for operators who print per participant: an
+ * overview sheet with every participant's seed and orders (like the Markdown
+ * summary), and one sheet per participant laid out session → modality →
+ * model type block → repetition. Each repetition is a row with the models in
+ * the order they are measured and a rating column next to each, and sphere
+ * cells are filled with the sphere's color. Every session starts on a new
+ * printed page.
+ */
+
+import type { Worksheet } from 'exceljs';
+import {
+  ExperimentData,
+  Measurement,
+  ModelTypeBlock,
+  Participant,
+  describeAllocationMethod,
+  describeStatus,
+  getModelTypeDefinition,
+  getParticipantStatus,
+  getSessionStatus,
+  getStratumKey,
+  isHexColor,
+  isWithdrawn,
+} from './randomization';
+import { verifyExperimentData } from './verification';
+
+const HEADER_FILL = 'FFE5E7EB';
+const SECTION_FILL = 'FFF3F4F6';
+
+// ExcelJS colors are ARGB hex without the leading #
+function toArgb(color: string): string {
+  return `FF${color.replace('#', '').toUpperCase()}`;
+}
+
+// Black or white text, whichever is readable on the fill
+function getTextColor(color: string): string {
+  const hex = color.replace('#', '');
+  const [r, g, b] = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return (0.299 * r + 0.587 * g + 0.114 * b) > 150 ? 'FF000000' : 'FFFFFFFF';
+}
+
+function styleHeaderRow(sheet: Worksheet, rowNumber: number, fill = HEADER_FILL): void {
+  const row = sheet.getRow(rowNumber);
+  row.font = { bold: true };
+  row.eachCell(cell => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: fill } };
+  });
+}
+
+// What was recorded for a measurement, for the rating column
+function describeResult(measurement: Measurement): string | number | null {
+  const result = measurement.result;
+  if (!result) return null;
+  if (result.skipped) return 'skipped';
+  return result.rating ?? null;
+}
+
+function addOverviewSheet(data: ExperimentData, sheet: Worksheet): void {
+  const integrity = verifyExperimentData(data);
+  const verified = new Set(integrity.participants.filter(p => p.passed).map(p => p.recordId));
+
+  sheet.addRow(['Experiment Randomization Summary']).font = { bold: true, size: 14 };
+  sheet.addRow(['Generated', new Date(data.generatedAt).toLocaleString()]);
+  sheet.addRow(['Allocation Method', describeAllocationMethod(data.allocationMethod)]);
+  sheet.addRow(['Algorithm Version', data.algorithmVersion ?? '?']);
+  if (data.masterSeed !== undefined) {
+    sheet.addRow(['Master Seed', data.masterSeed]);
+  }
+  sheet.addRow(['Participants', `${data.summary.activeParticipants ?? data.summary.totalParticipants} active, ${data.summary.withdrawnParticipants ?? 0} withdrawn`]);
+  sheet.addRow(['Measurements per Session', data.summary.measurementsPerSession]);
+  sheet.addRow([]);
+
+  const stratified = data.allocationMethod === 'stratified' && data.stratification;
+  const headers = [
+    'Participant',
+    'Status',
+    'Random Seed',
+    'Algorithm',
+    ...(stratified ? ['Stratum'] : []),
+    'Slot',
+    'Modality Order',
+    'Model Type Order',
+    'Ball Sphere Order',
+    'Balloon Order',
+    'Seed Verified',
+  ];
+  styleHeaderRow(sheet, sheet.addRow(headers).number);
+
+  for (const participant of data.participants) {
+    const session = participant.sessions[0];
+    sheet.addRow([
+      participant.recordId,
+      describeStatus(getParticipantStatus(participant)),
+      participant.randomSeed,
+      participant.algorithmVersion ?? '?',
+      ...(stratified ? [participant.strata ? getStratumKey(participant.strata, data.stratification!.factors) : null] : []),
+      participant.allocationIndex !== undefined ? participant.allocationIndex + 1 : null,
+      session.modalityOrder.join(' → '),
+      session.modelTypeOrder.join(' → '),
+      session.ballSphereOrder.join(' → '),
+      session.balloonOrder.join(' → '),
+      verified.has(participant.recordId) ? 'pass' : 'FAIL',
+    ]);
+  }
+
+  sheet.columns.forEach((column, idx) => {
+    column.width = idx === 0 ? 24 : 18;
+  });
+}
+
+function addBlockRows(data: ExperimentData, sheet: Worksheet, block: ModelTypeBlock): void {
+  const definition = getModelTypeDefinition(data.design, block.modelType);
+  sheet.addRow([definition.label]).font = { bold: true, italic: true };
+  const headers = ['Rep'];
+  for (let position = 1; position <= definition.models.length; position++) {
+    headers.push(`#${position}`, 'Rating');
+  }
+  styleHeaderRow(sheet, sheet.addRow(headers).number);
+
+  for (let repetition = 1; repetition <= data.design.repetitions; repetition++) {
+    const measurements = block.measurements
+      .filter(m => m.repetition === repetition)
+      .sort((a, b) => a.modelOrder - b.modelOrder);
+    const row = sheet.addRow([repetition, ...measurements.flatMap(m => [`${m.modelId} ${m.modelName}`, describeResult(m)])]);
+    measurements.forEach((m, idx) => {
+      const color = m.color ?? definition.models.find(model => model.id === m.modelId)?.color;
+      // Colors entered before they had to be hex are left unfilled
+      if (!color || !isHexColor(color)) return;
+      const cell = row.getCell(2 + idx * 2);
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: toArgb(color) } };
+      cell.font = { color: { argb: getTextColor(color) } };
+    });
+  }
+}
+
+function addParticipantSheet(data: ExperimentData, participant: Participant, sheet: Worksheet): void {
+  sheet.addRow([`Participant #${participant.recordId}`]).font = { bold: true, size: 14 };
+  sheet.addRow([
+    `Seed ${participant.randomSeed}`,
+    describeStatus(getParticipantStatus(participant)),
+    ...(isWithdrawn(participant) && participant.withdrawalReason ? [participant.withdrawalReason] : []),
+  ]);
+
+  for (const session of participant.sessions) {
+    // Every session after the first starts a new page
+    if (session.sessionNumber > 1) {
+      sheet.lastRow?.addPageBreak();
+    } else {
+      sheet.addRow([]);
+    }
+    const heading = sheet.addRow([
+      `Session ${session.sessionNumber}`,
+      describeStatus(getSessionStatus(participant, session)),
+      ...(session.plannedAt ? [new Date(session.plannedAt).toLocaleString()] : []),
+      ...(session.operator ? [session.operator] : []),
+    ]);
+    heading.font = { bold: true, size: 12 };
+    styleHeaderRow(sheet, heading.number, SECTION_FILL);
+
+    for (const modalityBlock of session.modalities) {
+      const modality = data.design.modalities.find(m => m.id === modalityBlock.modality);
+      sheet.addRow([]);
+      sheet.addRow([`${modalityBlock.order}. ${modality?.label ?? modalityBlock.modality}`]).font = { bold: true };
+      const blocks = session.modelTypeOrder[0] === 'ball'
+        ? [modalityBlock.ballBlock, modalityBlock.balloonBlock]
+        : [modalityBlock.balloonBlock, modalityBlock.ballBlock];
+      for (const block of blocks) {
+        addBlockRows(data, sheet, block);
+      }
+    }
+  }
+
+  sheet.columns.forEach((column, idx) => {
+    column.width = idx === 0 ? 12 : idx % 2 === 1 ? 16 : 8;
+  });
+  sheet.pageSetup = { orientation: 'portrait', fitToPage: true, fitToWidth: 1, fitToHeight: 0 };
+}
+
+// The workbook as an .xlsx file. ExcelJS is only loaded when a workbook is
+// exported.
+export async function buildWorkbook(data: ExperimentData): Promise<ArrayBuffer> {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  workbook.created = new Date();
+
+  addOverviewSheet(data, workbook.addWorksheet('Overview'));
+  for (const participant of data.participants) {
+    addParticipantSheet(data, participant, workbook.addWorksheet(`Participant ${participant.recordId}`));
+  }
+  return workbook.xlsx.writeBuffer();
+}